@@ -5,15 +5,17 @@
  * - Automatic color detection (urgency)
  * - Markdown support
  * - Note/footer elements
+ * - Collapsible "Thinking" panel for the agent's reasoning
  * - Proper truncation
  */
 
-import type { LarkCard, LarkCardElement } from './types.js';
+import type { LarkCard, LarkCardElement, LarkCardCollapsiblePanel } from './types.js';
 
 // ─── Constants ───────────────────────────────────────────────────
 
 const MAX_CARD_LENGTH = 30000;
 const MAX_TITLE_LENGTH = 50;
+const MAX_REASONING_LENGTH = 10000;
 
 // ─── Color Detection ─────────────────────────────────────────────
 
@@ -90,6 +92,9 @@ export interface BuildCardOptions {
   showTimestamp?: boolean;
   showSessionKey?: boolean;
   maxLength?: number;
+  /** Agent reasoning, shown in a collapsible panel above the text */
+  reasoning?: string;
+  reasoningExpanded?: boolean;
 }
 
 /**
@@ -104,6 +109,8 @@ export function buildCard(options: BuildCardOptions): LarkCard {
     showTimestamp = true,
     showSessionKey = true,
     maxLength = MAX_CARD_LENGTH,
+    reasoning,
+    reasoningExpanded = false,
   } = options;
 
   // Detect or use provided title
@@ -122,15 +129,19 @@ export function buildCard(options: BuildCardOptions): LarkCard {
   }
 
   // Build elements
-  const elements: LarkCardElement[] = [
-    {
-      tag: 'div',
-      text: {
-        tag: 'lark_md',
-        content: processedText,
-      },
+  const elements: LarkCardElement[] = [];
+
+  if (reasoning?.trim()) {
+    elements.push(buildReasoningPanel(reasoning, reasoningExpanded));
+  }
+
+  elements.push({
+    tag: 'div',
+    text: {
+      tag: 'lark_md',
+      content: processedText,
     },
-  ];
+  });
 
   // Add note/footer
   if (showTimestamp || showSessionKey) {
@@ -177,6 +188,77 @@ export function buildCard(options: BuildCardOptions): LarkCard {
   return card;
 }
 
+// ─── Reasoning Panel ─────────────────────────────────────────────
+
+/**
+ * Build the collapsible "Thinking" panel for the agent's reasoning
+ */
+export function buildReasoningPanel(reasoning: string, expanded = false): LarkCardCollapsiblePanel {
+  let content = reasoning.trim().substring(0, MAX_REASONING_LENGTH);
+  if (reasoning.trim().length > MAX_REASONING_LENGTH) {
+    content += '\n\n⚠️ _(Reasoning truncated)_';
+  }
+
+  return {
+    tag: 'collapsible_panel',
+    expanded,
+    header: {
+      title: {
+        tag: 'markdown',
+        content: '🧠 **Thinking**',
+      },
+      icon: {
+        tag: 'standard_icon',
+        token: 'down-small-ccm_outlined',
+        color: 'grey',
+      },
+      icon_position: 'right',
+      icon_expanded_angle: -180,
+    },
+    border: {
+      color: 'grey',
+      corner_radius: '5px',
+    },
+    vertical_spacing: '8px',
+    padding: '8px 8px 8px 8px',
+    elements: [
+      {
+        tag: 'div',
+        text: {
+          tag: 'lark_md',
+          content,
+        },
+      },
+    ],
+  };
+}
+
+// ─── Streaming Cards ─────────────────────────────────────────────
+
+/**
+ * Build a card for a reply that is still being written (done=false: the text so
+ * far with a cursor, no footer, reasoning expanded) or its final form (a regular
+ * reply card, reasoning collapsed). Both set update_multi so the card can be
+ * patched in place.
+ */
+export function buildStreamingCard(
+  text: string,
+  options: { done: boolean; sessionKey?: string; reasoning?: string }
+): LarkCard {
+  const card = options.done
+    ? buildCard({ text, sessionKey: options.sessionKey, reasoning: options.reasoning })
+    : buildCard({
+        text: text ? `${text} ▍` : '⏳ _Thinking..._',
+        showTimestamp: false,
+        showSessionKey: false,
+        reasoning: options.reasoning,
+        reasoningExpanded: !text,
+      });
+
+  card.config = { ...card.config, update_multi: true };
+  return card;
+}
+
 // ─── Message Type Selection ──────────────────────────────────────
 
 export type MessageType = 'skip' | 'text' | 'interactive';
@@ -6,24 +6,44 @@
  * - Unlimited retries with exponential backoff
  * - Full bidirectional messaging support
  * - Interactive cards with rich formatting
- * - Image upload/download support
+ * - Image, file, audio and video upload/download support
  */
 
 import { EventEmitter } from 'node:events';
 import fs from 'node:fs';
 import path from 'node:path';
 import crypto from 'node:crypto';
-import os from 'node:os';
 import type {
   LarkChannelConfig,
   ResolvedLarkAccount,
   LarkRuntimeState,
   LarkProbeResult,
+  InboundMessage,
+  OutboundMessage,
+  OutboundPayloadType,
+  OutboundMediaRef,
+  OutboundUploadType,
+  LoadedMedia,
+  LarkCard,
+  LarkSendResult,
+  LarkMsgType,
 } from './types.js';
-import { MessageQueue, getQueue, closeQueue } from './queue.js';
-import { LarkClient, getLarkClient, setLarkClient } from './client.js';
+import { MessageQueue, getQueue, findQueue, closeQueue } from './queue.js';
+import { mimeTypeFor } from './media-store.js';
+import type { MediaStore } from './media-store.js';
+import {
+  LarkClient,
+  setLarkClient,
+  getLarkClient,
+  loadMedia,
+  larkFileType,
+  MAX_ATTACHMENT_BYTES,
+  MAX_IMAGE_UPLOAD_BYTES,
+} from './client.js';
 import { buildCard, selectMessageType } from './card-builder.js';
+import { StreamingCard } from './streaming-card.js';
 import { WebhookHandler } from './webhook.js';
+import { WebSocketHandler } from './websocket.js';
 import {
   setAccountRuntime,
   createDefaultRuntimeState,
@@ -99,6 +119,8 @@ export function resolveLarkAccount(params: {
     appId,
     appSecret,
     encryptKey: merged.encryptKey ?? process.env.FEISHU_ENCRYPT_KEY ?? '',
+    verificationToken: merged.verificationToken ?? process.env.FEISHU_VERIFICATION_TOKEN ?? '',
+    connectionMode: merged.connectionMode ?? 'webhook',
     webhookPort: merged.webhookPort ?? DEFAULT_WEBHOOK_PORT,
     webhookBind: merged.webhookBind ?? '127.0.0.1',
     domain: merged.domain ?? 'lark',
@@ -137,80 +159,43 @@ const larkChannelMeta = {
 // ─── Consumer Functions ──────────────────────────────────────────
 
 const CONSUMER_FALLBACK_INTERVAL_MS = 5000;
+const DEFAULT_INBOUND_CONCURRENCY = 4;
+const DEFAULT_OUTBOUND_WORKERS = 4;
+// inbound:<account> and outbound:<account> wake the consumers; outbound-done:<account>:<id>
+// reports a send. Row ids are per database, so the account is part of every name.
 const consumerEvents = new EventEmitter();
 
-let inboundConsumerRunning = false;
-let outboundConsumerRunning = false;
-let inboundProcessing = false;
-let inboundInterval: NodeJS.Timeout | null = null;
-let outboundInterval: NodeJS.Timeout | null = null;
+// Consumer loops are per account: each account drains only its own queue rows
+// and delivers through its own client
+interface AccountConsumers {
+  inboundRunning: boolean;
+  outboundRunning: boolean;
+  inboundConcurrency: number;
+  inboundCoalesceMs: number;
+  outboundWorkers: number;
+  // In-flight dispatches (with the controller that aborts them) and sends; they are
+  // awaited on shutdown so nothing touches the queue after it is closed
+  inboundTasks: Map<Promise<void>, AbortController>;
+  outboundTasks: Set<Promise<void>>;
+  inboundInterval: NodeJS.Timeout | null;
+  outboundInterval: NodeJS.Timeout | null;
+  onInbound: (() => void) | null;
+  onOutbound: (() => void) | null;
+}
+
+const accountConsumers = new Map<string, AccountConsumers>();
 
 // ⚡ CRITICAL FIX: Use dispatchReplyWithBufferedBlockDispatcher like Telegram
 // This ensures session info, usage footer, reasoning blocks all work correctly.
 // The WebSocket agent method bypasses the dispatch system which is why it was broken.
 
 // ─── Large Attachment Support ────────────────────────────────────
-// Support for large attachments up to 200MB as per Boyang's requirement
-const MAX_ATTACHMENT_BYTES = 200 * 1024 * 1024; // 200 MB
-
-// Directory to save file attachments
-const LARK_MEDIA_DIR = path.join(os.homedir(), '.openclaw', 'media', 'lark-inbound');
 
 // Attachment type for OpenClaw - supports images and files
 type AttachmentForAgent = 
   | { type: 'image'; data: string; mimeType: string }
   | { type: 'file'; path: string; mimeType: string; fileName?: string };
 
-/**
- * Save a file attachment to disk and return the path.
- * This allows the agent to access files via the read tool.
- */
-function saveFileAttachment(base64: string, mimeType: string, fileName?: string): string {
-  // Ensure directory exists
-  if (!fs.existsSync(LARK_MEDIA_DIR)) {
-    fs.mkdirSync(LARK_MEDIA_DIR, { recursive: true, mode: 0o700 });
-  }
-  
-  // Determine extension from mime type or filename
-  const mimeExtensions: Record<string, string> = {
-    'application/zip': '.zip',
-    'application/pdf': '.pdf',
-    'application/msword': '.doc',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
-    'application/vnd.ms-excel': '.xls',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
-    'text/plain': '.txt',
-    'text/csv': '.csv',
-    'application/json': '.json',
-    'audio/mpeg': '.mp3',
-    'audio/wav': '.wav',
-    'audio/opus': '.opus',
-    'video/mp4': '.mp4',
-  };
-  
-  let ext = mimeExtensions[mimeType] || '';
-  if (!ext && fileName) {
-    const match = fileName.match(/\.[^.]+$/);
-    if (match) ext = match[0];
-  }
-  
-  // Create filename with original name if available
-  const uuid = crypto.randomUUID();
-  let finalName: string;
-  if (fileName) {
-    const baseName = path.parse(fileName).name.replace(/[^a-zA-Z0-9_\-]/g, '_').slice(0, 50);
-    finalName = `${baseName}---${uuid}${ext}`;
-  } else {
-    finalName = `${uuid}${ext}`;
-  }
-  
-  const filePath = path.join(LARK_MEDIA_DIR, finalName);
-  const buffer = Buffer.from(base64, 'base64');
-  fs.writeFileSync(filePath, buffer, { mode: 0o600 });
-  
-  return filePath;
-}
-
 /**
  * Parse and validate attachments, converting to the format expected by OpenClaw.
  * Handles large files up to 200MB.
@@ -218,11 +203,13 @@ function saveFileAttachment(base64: string, mimeType: string, fileName?: string)
  */
 function parseAttachmentsForAgent(
   attachmentsJson: string | null,
+  media: MediaStore,
+  chatId: string,
   log: { info: (msg: string) => void; warn?: (msg: string) => void } = { info: console.log, warn: console.warn }
 ): Array<AttachmentForAgent> {
   if (!attachmentsJson) return [];
 
-  let attachments: Array<{ type?: string; mimeType: string; content?: string; path?: string; fileName?: string }>;
+  let attachments: Array<{ type?: string; mimeType: string; content?: string; path?: string; fileName?: string; sha256?: string }>;
   try {
     attachments = JSON.parse(attachmentsJson);
   } catch (e) {
@@ -252,6 +239,36 @@ function parseAttachmentsForAgent(
       continue;
     }
 
+    // Images stored by reference - load the bytes from disk for replyOptions.images.
+    // Rows queued before attachments were stored by reference still carry base64 content.
+    if (att.type === 'image' && typeof att.path === 'string' && typeof att.content !== 'string') {
+      const mime = (att.mimeType ?? 'image/jpeg').toLowerCase();
+      let buffer: Buffer;
+      try {
+        const { size } = fs.statSync(att.path);
+        if (size > MAX_ATTACHMENT_BYTES) {
+          log.warn?.(`[ATTACHMENT] Skipping attachment ${idx + 1}: exceeds 200MB limit (${Math.round(size / 1024 / 1024)}MB)`);
+          continue;
+        }
+        buffer = fs.readFileSync(att.path);
+      } catch (e) {
+        log.warn?.(`[ATTACHMENT] Skipping attachment ${idx + 1}: cannot read ${att.path}: ${(e as Error).message}`);
+        continue;
+      }
+      if (att.sha256 && crypto.createHash('sha256').update(buffer).digest('hex') !== att.sha256) {
+        log.warn?.(`[ATTACHMENT] Skipping attachment ${idx + 1}: ${att.path} changed on disk (sha256 mismatch)`);
+        continue;
+      }
+      if (att.sha256) media.touch(att.sha256, chatId);
+      log.info(`[ATTACHMENT] Loaded image ${idx + 1}: ${mime}, ${Math.round(buffer.byteLength / 1024)}KB ← ${att.path}`);
+      results.push({
+        type: 'image' as const,
+        data: buffer.toString('base64'),
+        mimeType: mime,
+      });
+      continue;
+    }
+
     if (typeof att.content !== 'string') {
       log.warn?.(`[ATTACHMENT] Skipping attachment ${idx + 1}: no content or path`);
       continue;
@@ -300,11 +317,11 @@ function parseAttachmentsForAgent(
     } else {
       // Save non-image files to disk so agent can access via read tool
       try {
-        const filePath = saveFileAttachment(b64, mime, att.fileName);
-        log.info(`[ATTACHMENT] Saved file ${idx + 1}: ${mime}, ${sizeKB}KB → ${filePath}`);
+        const stored = media.putBuffer(Buffer.from(b64, 'base64'), mime, chatId, att.fileName);
+        log.info(`[ATTACHMENT] Saved file ${idx + 1}: ${mime}, ${sizeKB}KB → ${stored.path}`);
         results.push({
           type: 'file' as const,
-          path: filePath,
+          path: stored.path,
           mimeType: mime,
           fileName: att.fileName,
         });
@@ -317,387 +334,1032 @@ function parseAttachmentsForAgent(
   return results;
 }
 
-async function processInboundQueue(
+/**
+ * Fill free dispatch slots with the head message of each ready chat: different
+ * chats run in parallel (up to inboundConcurrency), messages within one chat run
+ * strictly in order (the queue never hands out a chat's next message while one is
+ * in flight or waiting for a retry). With inboundCoalesceMs, the head is dispatched
+ * together with the sender's rapid-fire follow-ups.
+ */
+function processInboundQueue(
+  accountId: string,
   queue: MessageQueue,
   _gatewayToken: string,
   _gatewayPort: number,
   _agentId: string
-): Promise<void> {
-  if (!inboundConsumerRunning || inboundProcessing) return;
-  inboundProcessing = true;
-  try {
-    await processInboundQueueInner(queue);
-  } finally {
-    inboundProcessing = false;
+): void {
+  const state = accountConsumers.get(accountId);
+  if (!state?.inboundRunning) return;
+
+  const free = state.inboundConcurrency - state.inboundTasks.size;
+  if (free <= 0) return;
+
+  const messages = queue.dequeueInbound(free, state.inboundCoalesceMs);
+  for (const msg of messages) {
+    // Claim fails if another process took the row first
+    if (!queue.markInboundProcessing(msg.id)) continue;
+
+    const followers: InboundMessage[] = [];
+    if (state.inboundCoalesceMs > 0) {
+      for (const follower of queue.collectCoalescedInbound(msg, state.inboundCoalesceMs)) {
+        if (!queue.markInboundProcessing(follower.id)) break;
+        followers.push(follower);
+      }
+    }
+
+    // A lost lease means another worker reclaimed the message and runs it again: stop this run
+    const lease = new AbortController();
+    const stopHeartbeat = queue.keepLeasesAlive(
+      'inbound',
+      [msg.id, ...followers.map((f) => f.id)],
+      () => lease.abort(new Error('Lease lost'))
+    );
+    const task: Promise<void> = dispatchInbound(accountId, queue, msg, followers, lease.signal)
+      .catch((err) => {
+        console.error(`[INBOUND] ❌ Dispatch of #${msg.id} failed unhandled:`, (err as Error).message);
+      })
+      .finally(() => {
+        stopHeartbeat();
+        state.inboundTasks.delete(task);
+        // A slot freed up (and this chat's next message may now be ready)
+        processInboundQueue(accountId, queue, _gatewayToken, _gatewayPort, _agentId);
+      });
+    state.inboundTasks.set(task, lease);
   }
 }
 
-async function processInboundQueueInner(queue: MessageQueue): Promise<void> {
+/**
+ * Merge a head message and its coalesced follow-ups into one dispatch:
+ * texts joined by newlines, attachments concatenated
+ */
+function mergeInboundMessages(head: InboundMessage, followers: InboundMessage[]): InboundMessage {
+  const batch = [head, ...followers];
+  const attachments: unknown[] = [];
+  for (const m of batch) {
+    if (!m.attachments_json) continue;
+    try {
+      const parsed = JSON.parse(m.attachments_json);
+      if (Array.isArray(parsed)) attachments.push(...parsed);
+    } catch {
+      // Skip unparseable attachments - parseAttachmentsForAgent would drop them too
+    }
+  }
 
-  const messages = queue.dequeueInbound(3);
+  return {
+    ...head,
+    message_text: batch.map((m) => m.message_text).join('\n'),
+    attachments_json: attachments.length > 0 ? JSON.stringify(attachments) : null,
+  };
+}
 
-  for (const msg of messages) {
-    queue.markInboundProcessing(msg.id);
+async function dispatchInbound(
+  accountId: string,
+  queue: MessageQueue,
+  head: InboundMessage,
+  followers: InboundMessage[] = [],
+  leaseSignal?: AbortSignal
+): Promise<void> {
+  const msg = followers.length > 0 ? mergeInboundMessages(head, followers) : head;
+  let streamCard: StreamingCard | null = null;
 
-    try {
-      console.log(`[INBOUND] Processing #${msg.id} | attempt ${msg.retries + 1}`);
-
-      // Parse attachments (images and files) with proper validation
-      const allAttachments = parseAttachmentsForAgent(msg.attachments_json);
-      
-      // Separate images from files
-      const images = allAttachments.filter((a): a is { type: 'image'; data: string; mimeType: string } => a.type === 'image');
-      const files = allAttachments.filter((a): a is { type: 'file'; path: string; mimeType: string; fileName?: string } => a.type === 'file');
-
-      // ⚡ FIX: Extract image paths from raw attachments for MediaPath/MediaPaths
-      // The media understanding system needs file paths, not just base64 data
-      let imagePaths: { path: string; mimeType: string }[] = [];
-      if (msg.attachments_json) {
-        try {
-          const rawAttachments = JSON.parse(msg.attachments_json) as Array<{ type?: string; path?: string; mimeType?: string }>;
-          imagePaths = rawAttachments
-            .filter(a => a.type === 'image' && a.path)
-            .map(a => ({ path: a.path!, mimeType: a.mimeType ?? 'image/jpeg' }));
-        } catch {
-          // Ignore parse errors - already logged by parseAttachmentsForAgent
-        }
-      }
+  try {
+    console.log(`[INBOUND] Processing #${msg.id} | account=${accountId} | attempt ${msg.retries + 1}`);
+    if (followers.length > 0) {
+      console.log(`[INBOUND] Coalesced #${msg.id} with ${followers.map((f) => `#${f.id}`).join(', ')}`);
+    }
 
-      if (images.length > 0) {
-        console.log(`[INBOUND] Message has ${images.length} image(s), ${imagePaths.length} with disk paths`);
-      }
-      if (files.length > 0) {
-        console.log(`[INBOUND] Message has ${files.length} file(s): ${files.map(f => f.fileName || path.basename(f.path)).join(', ')}`);
+    // Parse attachments (images and files) with proper validation
+    const allAttachments = parseAttachmentsForAgent(msg.attachments_json, queue.media, msg.chat_id);
+    
+    // Separate images from files
+    const images = allAttachments.filter((a): a is { type: 'image'; data: string; mimeType: string } => a.type === 'image');
+    const files = allAttachments.filter((a): a is { type: 'file'; path: string; mimeType: string; fileName?: string } => a.type === 'file');
+
+    // ⚡ FIX: Extract image paths from raw attachments for MediaPath/MediaPaths
+    // The media understanding system needs file paths, not just base64 data
+    let imagePaths: { path: string; mimeType: string }[] = [];
+    if (msg.attachments_json) {
+      try {
+        const rawAttachments = JSON.parse(msg.attachments_json) as Array<{ type?: string; path?: string; mimeType?: string }>;
+        imagePaths = rawAttachments
+          .filter(a => a.type === 'image' && a.path)
+          .map(a => ({ path: a.path!, mimeType: a.mimeType ?? 'image/jpeg' }));
+      } catch {
+        // Ignore parse errors - already logged by parseAttachmentsForAgent
       }
+    }
+
+    if (images.length > 0) {
+      console.log(`[INBOUND] Message has ${images.length} image(s), ${imagePaths.length} with disk paths`);
+    }
+    if (files.length > 0) {
+      console.log(`[INBOUND] Message has ${files.length} file(s): ${files.map(f => f.fileName || path.basename(f.path)).join(', ')}`);
+    }
+
+    // Get the plugin runtime with dispatch system
+    const pluginRuntime = getLarkRuntime();
+    const cfg = pluginRuntime.config.loadConfig() as Record<string, unknown>;
+    const larkConfig = resolveLarkAccount({ cfg: cfg as { channels?: { lark?: LarkChannelConfig } }, accountId }).config;
+    
+    // ⚡ CRITICAL: Validate dmScope config to ensure correct session key routing
+    // If dmScope is not set, default to 'per-channel-peer' for proper Lark session isolation
+    const sessionConfig = cfg.session as { dmScope?: string } | undefined;
+    const dmScope = sessionConfig?.dmScope ?? 'per-channel-peer';
+    
+    // Log config state for debugging session key issues
+    console.log(`[INBOUND] Config check: dmScope=${dmScope}, hasSessionConfig=${!!sessionConfig}`);
+    
+    // Chat type and sender come from the persisted Lark event; rows queued before
+    // they were stored fall back to the placeholder session key (lark:<chat>:<sender>)
+    const isGroup = msg.chat_type ? msg.chat_type === 'group' : msg.chat_id.startsWith('og_');
+    const chatType: 'direct' | 'group' = isGroup ? 'group' : 'direct';
+    const senderId = msg.sender_open_id || (msg.session_key || '').split(':')[2] || msg.chat_id;
+    
+    // Resolve routing - use same signature as Telegram
+    const groupRoute = pluginRuntime.channel.routing.resolveAgentRoute({
+      cfg,
+      channel: 'lark',
+      accountId,
+      peer: {
+        kind: isGroup ? 'group' : 'dm',
+        id: msg.chat_id,
+      },
+    });
 
-      // Get the plugin runtime with dispatch system
-      const pluginRuntime = getLarkRuntime();
-      const cfg = pluginRuntime.config.loadConfig() as Record<string, unknown>;
-      
-      // ⚡ CRITICAL: Validate dmScope config to ensure correct session key routing
-      // If dmScope is not set, default to 'per-channel-peer' for proper Lark session isolation
-      const sessionConfig = cfg.session as { dmScope?: string } | undefined;
-      const dmScope = sessionConfig?.dmScope ?? 'per-channel-peer';
-      
-      // Log config state for debugging session key issues
-      console.log(`[INBOUND] Config check: dmScope=${dmScope}, hasSessionConfig=${!!sessionConfig}`);
-      
-      // Derive chat type from chat_id pattern (og_ = group, oc_ = DM)
-      const isGroup = msg.chat_id.startsWith('og_');
-      const chatType: 'direct' | 'group' = isGroup ? 'group' : 'direct';
-      
-      // Resolve routing - use same signature as Telegram
-      const route = pluginRuntime.channel.routing.resolveAgentRoute({
-        cfg,
+    // Threads (and every topic of a topic group) are separate conversations: each gets
+    // its own session, keyed on thread_id (set on every message in the thread, unlike
+    // root_id which plain quote-replies carry too). The group stays the parent peer,
+    // so bindings for the group still apply.
+    const threadSessions = larkConfig.groups?.[msg.chat_id]?.threadSessions ?? larkConfig.threadSessions ?? true;
+    const threadScoped = isGroup && !!msg.thread_id && threadSessions;
+    const route = threadScoped
+      ? pluginRuntime.channel.routing.resolveAgentRoute({
+          cfg,
+          channel: 'lark',
+          accountId,
+          peer: { kind: 'group', id: `${msg.chat_id}:thread:${msg.thread_id}` },
+          parentPeer: { kind: 'group', id: msg.chat_id },
+        })
+      : groupRoute;
+    
+    // ⚡ CRITICAL: Validate session key format
+    // Expected format for DM with per-channel-peer: agent:main:lark:dm:<chatId>
+    // If we get agent:main:main, something is wrong with config loading
+    const expectedPrefix = isGroup ? `agent:main:lark:group:` : `agent:main:lark:dm:`;
+    if (!route.sessionKey.startsWith(expectedPrefix) && !route.sessionKey.includes(':lark:')) {
+      console.warn(`[INBOUND] ⚠️ Unexpected session key format: ${route.sessionKey}`);
+      console.warn(`[INBOUND] ⚠️ Config state: dmScope=${dmScope}, isGroup=${isGroup}, chatId=${msg.chat_id}`);
+      // This indicates a config loading issue - the session key should include 'lark'
+    }
+
+    // Build context like Telegram does - THIS IS THE KEY
+    // Include MediaPath/MediaPaths for file attachments (following Telegram pattern)
+    const ctx = pluginRuntime.channel.reply.finalizeInboundContext({
+      Body: msg.message_text,
+      BodyForAgent: msg.message_text,
+      BodyForCommands: msg.message_text,
+      RawBody: msg.message_text,
+      CommandBody: msg.message_text,
+      SessionKey: route.sessionKey,
+      ParentSessionKey: threadScoped ? groupRoute.sessionKey : undefined,
+      Provider: 'lark',
+      Surface: 'lark',
+      // ⚡ CRITICAL: These two fields enable session info routing
+      OriginatingChannel: 'lark',
+      OriginatingTo: msg.chat_id,
+      ChatType: chatType,
+      CommandAuthorized: true,
+      MessageSid: msg.message_id,
+      AccountId: accountId,
+      SenderId: senderId,
+      From: senderId,
+      Timestamp: msg.lark_create_time ?? msg.created_at,
+      ReplyToId: msg.parent_id ?? undefined,
+      ReplyToBody: msg.reply_to_body ?? undefined,
+      ReplyToSender: msg.reply_to_sender ?? undefined,
+      MessageThreadId: msg.thread_id ?? undefined,
+      // ⚡ CRITICAL: Include both images AND files in MediaPath/MediaPaths
+      // This enables the media understanding system to process images with vision models
+      // Images are saved to disk by the webhook handler and paths are stored in attachments
+      MediaPath: imagePaths.length > 0 ? imagePaths[0].path : (files.length > 0 ? files[0].path : undefined),
+      MediaPaths: [...imagePaths.map(i => i.path), ...files.map(f => f.path)].length > 0 
+        ? [...imagePaths.map(i => i.path), ...files.map(f => f.path)] 
+        : undefined,
+      MediaTypes: [...imagePaths.map(i => i.mimeType), ...files.map(f => f.mimeType)].length > 0
+        ? [...imagePaths.map(i => i.mimeType), ...files.map(f => f.mimeType)]
+        : undefined,
+    });
+
+    // Record session metadata
+    const storePath = pluginRuntime.channel.session.resolveStorePath();
+    await pluginRuntime.channel.session.recordInboundSession({
+      storePath,
+      sessionKey: route.sessionKey,
+      ctx,
+      updateLastRoute: chatType !== 'group' ? {
+        sessionKey: route.mainSessionKey,
         channel: 'lark',
-        accountId: 'default',
-        peer: {
-          kind: isGroup ? 'group' : 'dm',
-          id: msg.chat_id,
+        to: msg.chat_id,
+        accountId: route.accountId ?? accountId,
+      } : undefined,
+      onRecordError: (err) => {
+        console.error('[INBOUND] Failed to record session:', err.message);
+      },
+    });
+
+    console.log(`[INBOUND] Starting dispatch for message: "${msg.message_text.substring(0, 50)}..." | images: ${images.length}`);
+    console.log(`[INBOUND] Context: SessionKey=${route.sessionKey}, ChatId=${msg.chat_id}, Surface=${ctx.Surface}, OriginatingChannel=${ctx.OriginatingChannel}`);
+    
+    let deliverCallCount = 0;
+    let lastDeliveryKind = '';
+
+    // Blocks delivered by earlier attempts are durable (inbound_deliveries): on a retry,
+    // identical blocks are suppressed and the first new block carries a retry banner
+    let blockIndex = 0;
+    const priorBlocks = msg.retries > 0 ? queue.getInboundDeliveries(msg.id).length : 0;
+    let bannerPending = priorBlocks > 0;
+    if (priorBlocks > 0) {
+      console.log(`[DISPATCH] Retry of #${msg.id}: ${priorBlocks} block(s) already delivered`);
+    }
+
+    const replyTarget = resolveReplyTarget(larkConfig, msg);
+
+    // Reasoning streamed by the agent goes into a collapsible panel of the next reply
+    // card. Configurable per group, so a group can hide it while DMs show it.
+    const showReasoning = larkConfig.groups?.[msg.chat_id]?.showReasoning ?? larkConfig.showReasoning ?? true;
+    let reasoningText = '';
+
+    // blockStreaming: the reply is written into one card as it streams. Retries deliver
+    // block by block, so blocks an earlier attempt already sent are still suppressed.
+    let streamOutboundId: number | undefined;
+    if (larkConfig.blockStreaming !== false && msg.retries === 0) {
+      const client = getLarkClient(accountId);
+      streamCard = new StreamingCard({
+        sessionKey: route.sessionKey,
+        // Queued like any reply, so the card keeps its place among the chat's messages
+        create: async (card) => {
+          const result = await deliverViaQueue(accountId, queue, 'reply', {
+            runId: msg.message_id,
+            sessionKey: route.sessionKey,
+            chatId: msg.chat_id,
+            content: JSON.stringify(card),
+            payloadType: 'card',
+            ...replyTarget,
+            idempotencyKey: `stream:${msg.message_id}`,
+          });
+          if (result.queued && result.outboundId !== undefined) {
+            // The reply goes out as a regular message; a late placeholder would be orphaned
+            discardLateCard(accountId, queue, result.outboundId);
+            return null;
+          }
+          streamOutboundId = result.outboundId;
+          return result.messageId ?? null;
         },
+        patch: async (messageId, card) => {
+          const result = await client.patchCard(messageId, card);
+          if (!result.success) {
+            console.error(`[STREAM] ❌ Patch of ${messageId} failed: ${result.error}`);
+          }
+          return result.success;
+        },
+        remove: (messageId) => client.deleteMessage(messageId),
       });
-      
-      // ⚡ CRITICAL: Validate session key format
-      // Expected format for DM with per-channel-peer: agent:main:lark:dm:<chatId>
-      // If we get agent:main:main, something is wrong with config loading
-      const expectedPrefix = isGroup ? `agent:main:lark:group:` : `agent:main:lark:dm:`;
-      if (!route.sessionKey.startsWith(expectedPrefix) && !route.sessionKey.includes(':lark:')) {
-        console.warn(`[INBOUND] ⚠️ Unexpected session key format: ${route.sessionKey}`);
-        console.warn(`[INBOUND] ⚠️ Config state: dmScope=${dmScope}, isGroup=${isGroup}, chatId=${msg.chat_id}`);
-        // This indicates a config loading issue - the session key should include 'lark'
+    }
+
+    const deliverBlock = async (kind: string, blockText: string, target: ReplyTarget, mediaUrl?: string): Promise<void> => {
+      const index = blockIndex++;
+      if (queue.wasBlockDelivered(msg.id, index, blockText)) {
+        console.log(`[DISPATCH] ⏭️ Block ${index} already delivered by an earlier attempt`);
+        return;
       }
 
-      // Build context like Telegram does - THIS IS THE KEY
-      // Include MediaPath/MediaPaths for file attachments (following Telegram pattern)
-      const ctx = pluginRuntime.channel.reply.finalizeInboundContext({
-        Body: msg.message_text,
-        BodyForAgent: msg.message_text,
-        BodyForCommands: msg.message_text,
-        RawBody: msg.message_text,
-        CommandBody: msg.message_text,
-        SessionKey: route.sessionKey,
-        Provider: 'lark',
-        Surface: 'lark',
-        // ⚡ CRITICAL: These two fields enable session info routing
-        OriginatingChannel: 'lark',
-        OriginatingTo: msg.chat_id,
-        ChatType: chatType,
-        CommandAuthorized: true,
-        MessageSid: msg.message_id,
-        SenderId: (msg.session_key || '').split(':')[2] || msg.chat_id,
-        From: (msg.session_key || '').split(':')[2] || msg.chat_id,
-        // ⚡ CRITICAL: Include both images AND files in MediaPath/MediaPaths
-        // This enables the media understanding system to process images with vision models
-        // Images are saved to disk by the webhook handler and paths are stored in attachments
-        MediaPath: imagePaths.length > 0 ? imagePaths[0].path : (files.length > 0 ? files[0].path : undefined),
-        MediaPaths: [...imagePaths.map(i => i.path), ...files.map(f => f.path)].length > 0 
-          ? [...imagePaths.map(i => i.path), ...files.map(f => f.path)] 
-          : undefined,
-        MediaTypes: [...imagePaths.map(i => i.mimeType), ...files.map(f => f.mimeType)].length > 0
-          ? [...imagePaths.map(i => i.mimeType), ...files.map(f => f.mimeType)]
-          : undefined,
-      });
+      let params: { content: string; payloadType?: OutboundPayloadType; media?: OutboundMediaRef };
+      if (mediaUrl) {
+        try {
+          params = { content: '', ...(await prepareOutboundMedia(queue, msg.chat_id, mediaUrl)) };
+        } catch (err) {
+          console.error(`[DISPATCH] ❌ ${kind} media not delivered: ${(err as Error).message}`);
+          return;
+        }
+      } else {
+        params = { content: blockText };
+        if (bannerPending) {
+          bannerPending = false;
+          params.content = `${formatRetryBanner(priorBlocks)}\n\n${blockText}`;
+        }
+        if (reasoningText && selectMessageType(blockText) !== 'skip') {
+          params = {
+            content: JSON.stringify(buildCard({ text: params.content, sessionKey: route.sessionKey, reasoning: reasoningText })),
+            payloadType: 'card',
+          };
+          reasoningText = '';
+        }
+      }
 
-      // Record session metadata
-      const storePath = pluginRuntime.channel.session.resolveStorePath();
-      await pluginRuntime.channel.session.recordInboundSession({
-        storePath,
+      console.log(`[DISPATCH] Delivering ${kind}: ${mediaUrl ? params.payloadType : `${params.content.length} chars`} to ${msg.chat_id}`);
+      // Keyed on the block's original text so a retry that rephrases a block still sends it
+      const textHash = crypto.createHash('md5').update(blockText).digest('hex').slice(0, 12);
+      const result = await deliverViaQueue(accountId, queue, 'reply', {
+        runId: msg.message_id,
         sessionKey: route.sessionKey,
-        ctx,
-        updateLastRoute: chatType !== 'group' ? {
-          sessionKey: route.mainSessionKey,
-          channel: 'lark',
-          to: msg.chat_id,
-          accountId: route.accountId,
-        } : undefined,
-        onRecordError: (err) => {
-          console.error('[INBOUND] Failed to record session:', err.message);
-        },
+        chatId: msg.chat_id,
+        ...params,
+        ...target,
+        idempotencyKey: `reply:${msg.message_id}:${index}:${textHash}`,
       });
+      if (result.error) {
+        // Permanent Lark error - re-running the agent would not help
+        console.error(`[DISPATCH] ❌ ${kind} not delivered: ${result.error}`);
+        return;
+      }
+      queue.recordInboundDelivery(msg.id, index, blockText, result.outboundId);
+      console.log(`[DISPATCH] ✅ ${result.queued ? 'Queued' : 'Sent'} ${kind} block ${index} to Lark`);
+    };
+
+    const dispatchPromise = pluginRuntime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+      ctx,
+      cfg,
+      dispatcherOptions: {
+        deliver: async (payload, info) => {
+          if (leaseSignal?.aborted) {
+            console.warn(`[DISPATCH] ⏹️ Not delivering ${info.kind} for #${msg.id}: run was aborted`);
+            return;
+          }
+          deliverCallCount++;
+          lastDeliveryKind = info.kind;
+          console.log(`[DISPATCH] deliver() called #${deliverCallCount}: kind=${info.kind}, hasText=${!!payload.text}, textLen=${payload.text?.length ?? 0}, hasMedia=${!!(payload.mediaUrl || payload.mediaUrls?.length)}`);
+
+          const text = payload.text?.trim();
+          const mediaUrls = payload.mediaUrls?.length ? payload.mediaUrls : payload.mediaUrl ? [payload.mediaUrl] : [];
+          if (!text && mediaUrls.length === 0) {
+            console.log(`[DISPATCH] Skipping empty payload for kind=${info.kind}`);
+            return;
+          }
 
-      // Get the Lark client for delivery
-      const client = getLarkClient();
-
-      console.log(`[INBOUND] Starting dispatch for message: "${msg.message_text.substring(0, 50)}..." | images: ${images.length}`);
-      console.log(`[INBOUND] Context: SessionKey=${route.sessionKey}, ChatId=${msg.chat_id}, Surface=${ctx.Surface}, OriginatingChannel=${ctx.OriginatingChannel}`);
-      
-      const DISPATCH_TIMEOUT_MS = 300_000;
-      let deliverCallCount = 0;
-      let lastDeliveryKind = '';
-
-      const dispatchPromise = pluginRuntime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
-        ctx,
-        cfg,
-        dispatcherOptions: {
-          deliver: async (payload, info) => {
-            deliverCallCount++;
-            lastDeliveryKind = info.kind;
-            console.log(`[DISPATCH] deliver() called #${deliverCallCount}: kind=${info.kind}, hasText=${!!payload.text}, textLen=${payload.text?.length ?? 0}, hasMedia=${!!payload.mediaUrl}`);
-
-            const text = payload.text?.trim();
-            if (!text) {
-              console.log(`[DISPATCH] Skipping empty payload for kind=${info.kind}`);
-              return;
-            }
-
-            console.log(`[DISPATCH] Delivering ${info.kind}: ${text.length} chars to ${msg.chat_id}`);
-            await sendToLark(client, msg.chat_id, text, route.sessionKey);
-            console.log(`[DISPATCH] ✅ Sent ${info.kind} to Lark`);
-          },
-          onError: (err, info) => {
-            console.error(`[DISPATCH] ${info.kind} error:`, (err as Error).message);
-            if ((err as Error).stack) {
-              console.error(`[DISPATCH] Stack:`, (err as Error).stack);
-            }
-          },
-          onSkip: (_payload, info) => {
-            console.log(`[DISPATCH] onSkip: reason=${info.reason}`);
-          },
-          onReplyStart: () => {
-            console.log(`[DISPATCH] onReplyStart called`);
-          },
+          // The agent may answer a specific earlier message ([[reply_to:<id>]])
+          const target = payload.replyToId
+            ? { replyTo: payload.replyToId, replyInThread: replyTarget.replyInThread }
+            : replyTarget;
+
+          // Text first, then each media item as its own block. The final text goes into
+          // the streaming card; if the card cannot be updated it is sent normally.
+          if (text && info.kind === 'final' && streamCard && !streamCard.done && await streamCard.finalize(text)) {
+            queue.recordInboundDelivery(msg.id, blockIndex++, text, streamOutboundId);
+            reasoningText = '';
+            console.log(`[DISPATCH] ✅ Final reply patched into the streaming card`);
+          } else if (text) {
+            await deliverBlock(info.kind, text, target);
+          }
+          for (const mediaUrl of mediaUrls) {
+            await deliverBlock(info.kind, `media:${mediaUrl}`, target, mediaUrl);
+          }
+        },
+        onError: (err, info) => {
+          console.error(`[DISPATCH] ${info.kind} error:`, (err as Error).message);
+          if ((err as Error).stack) {
+            console.error(`[DISPATCH] Stack:`, (err as Error).stack);
+          }
         },
-        replyOptions: {
-          disableBlockStreaming: false,
-          images: images.length > 0 ? images : undefined,
+        onSkip: (_payload, info) => {
+          console.log(`[DISPATCH] onSkip: reason=${info.reason}`);
         },
-      });
-
-      let timeoutHandle: ReturnType<typeof setTimeout>;
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        timeoutHandle = setTimeout(() => reject(new Error('Dispatch timeout after 5 minutes')), DISPATCH_TIMEOUT_MS);
-      });
+        onReplyStart: () => {
+          console.log(`[DISPATCH] onReplyStart called`);
+          streamCard?.start();
+        },
+      },
+      replyOptions: {
+        // The streaming card shows the reply as it is written, so blocks are not sent separately
+        disableBlockStreaming: streamCard !== null,
+        onPartialReply: streamCard
+          ? (payload) => {
+              if (payload.text) streamCard?.update(payload.text);
+            }
+          : undefined,
+        onReasoningStream: showReasoning
+          ? (payload) => {
+              if (!payload.text) return;
+              reasoningText = payload.text;
+              streamCard?.updateReasoning(payload.text);
+            }
+          : undefined,
+        images: images.length > 0 ? images : undefined,
+        abortSignal: leaseSignal,
+      },
+    });
 
-      const dispatchResult = await Promise.race([dispatchPromise, timeoutPromise]).finally(() => {
-        clearTimeout(timeoutHandle);
-      });
+    // No time limit: the lease is renewed while the agent runs, however long it takes
+    const dispatchResult = leaseSignal ? await untilAborted(dispatchPromise, leaseSignal) : await dispatchPromise;
+    await streamCard?.close();
 
-      console.log(`[INBOUND] ✅ Completed #${msg.id} | deliverCalls=${deliverCallCount} | lastKind=${lastDeliveryKind} | dispatchResult=${JSON.stringify(dispatchResult)}`);
-      queue.markInboundCompleted(msg.id, 'delivered');
-    } catch (err) {
-      const error = err as Error;
-      console.error(`[INBOUND] ❌ Failed #${msg.id}:`, error.message);
-      if (error.stack) {
-        console.error(`[INBOUND] Stack:`, error.stack);
-      }
+    console.log(`[INBOUND] ✅ Completed #${msg.id} | deliverCalls=${deliverCallCount} | blocksDelivered=${queue.getInboundDeliveries(msg.id).length} | lastKind=${lastDeliveryKind} | dispatchResult=${JSON.stringify(dispatchResult)}`);
+    queue.markInboundCompleted(msg.id, 'delivered');
+    for (const follower of followers) {
+      queue.markInboundCompleted(follower.id, `coalesced into #${msg.id}`);
+    }
+    setAccountRuntime(accountId, { lastInboundAt: Date.now() });
+  } catch (err) {
+    const error = err as Error;
+    console.error(`[INBOUND] ❌ Failed #${msg.id}:`, error.message);
+    if (error.stack) {
+      console.error(`[INBOUND] Stack:`, error.stack);
+    }
+    // The retry sends its reply from scratch
+    await streamCard?.close(false);
+    if (leaseSignal?.aborted) {
+      // Lease lost: another worker runs it again. Shutting down: the row is handed back on close.
+      console.warn(`[INBOUND] ⏹️ Abandoned #${msg.id}: ${error.message}`);
+    } else {
       queue.markInboundRetry(msg.id, error.message);
     }
+    // Follow-ups go back to pending and are coalesced again on the next attempt
+    for (const follower of followers) {
+      queue.releaseInbound(follower.id);
+    }
   }
 }
 
-async function processOutboundQueue(
+/**
+ * Settle with the promise, or reject as soon as the signal aborts (the promise
+ * keeps running, its result is ignored)
+ */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason instanceof Error ? signal.reason : new Error('Aborted'));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * The only path that sends to Lark. Fills free worker slots with the head message
+ * of each ready chat: chats are delivered concurrently, messages within a chat in
+ * order (the queue never hands out a chat's next message while one is in flight
+ * or backing off). Failed sends are rescheduled in the queue (never retried
+ * in-process); waiters in deliverViaQueue are notified once a message reaches a
+ * final state.
+ */
+function processOutboundQueue(
+  accountId: string,
   queue: MessageQueue,
   client: LarkClient
-): Promise<void> {
-  if (!outboundConsumerRunning) return;
+): void {
+  const state = accountConsumers.get(accountId);
+  if (!state?.outboundRunning) return;
 
-  const messages = queue.dequeueOutbound(5);
+  const free = state.outboundWorkers - state.outboundTasks.size;
+  if (free <= 0) return;
 
+  const messages = queue.dequeueOutbound(free);
   for (const msg of messages) {
-    queue.markOutboundProcessing(msg.id);
+    // Claim fails if another process took the row first
+    if (!queue.markOutboundProcessing(msg.id)) continue;
+
+    const lease = new AbortController();
+    const stopHeartbeat = queue.keepLeasesAlive('outbound', [msg.id], () => lease.abort(new Error('Lease lost')));
+    const task: Promise<void> = sendOutbound(accountId, queue, client, msg, lease.signal)
+      .catch((err) => {
+        console.error(`[OUTBOUND] ❌ Send of #${msg.id} failed unhandled:`, (err as Error).message);
+      })
+      .finally(() => {
+        stopHeartbeat();
+        state.outboundTasks.delete(task);
+        // A slot freed up (and this chat's next message may now be ready)
+        processOutboundQueue(accountId, queue, client);
+      });
+    state.outboundTasks.add(task);
+  }
+}
 
-    try {
-      console.log(`[OUTBOUND] Processing #${msg.id} (${msg.queue_type}) | attempt ${msg.retries + 1}`);
+async function sendOutbound(
+  accountId: string,
+  queue: MessageQueue,
+  client: LarkClient,
+  msg: OutboundMessage,
+  leaseSignal?: AbortSignal
+): Promise<void> {
+  try {
+    console.log(`[OUTBOUND] Processing #${msg.id} (${msg.queue_type}) | chat=${msg.chat_id} | attempt ${msg.retries + 1}`);
 
-      const result = await sendToLark(client, msg.chat_id, msg.content, msg.session_key);
+    const result = await sendOutboundRow(client, queue, msg);
 
-      if (result.skipped) {
-        queue.markOutboundCompleted(msg.id, null);
-      } else if (result.messageId) {
-        queue.markOutboundCompleted(msg.id, result.messageId);
-      } else {
-        throw new Error(result.error ?? 'Unknown error');
+    // Reclaimed meanwhile: the new owner sends again (deduped by Lark via lark_uuid)
+    // and records the outcome
+    if (leaseSignal?.aborted) {
+      console.warn(`[OUTBOUND] ⏹️ Abandoned #${msg.id}: ${(leaseSignal.reason as Error).message}`);
+      return;
+    }
+
+    if (result.skipped) {
+      if (queue.markOutboundCompleted(msg.id, null)) {
+        consumerEvents.emit(`outbound-done:${accountId}:${msg.id}`, { skipped: true });
       }
-    } catch (err) {
-      console.error(`[OUTBOUND] Failed #${msg.id}:`, (err as Error).message);
-      queue.markOutboundRetry(msg.id, (err as Error).message);
+    } else if (result.messageId) {
+      if (queue.markOutboundCompleted(msg.id, result.messageId)) {
+        setAccountRuntime(accountId, { lastOutboundAt: Date.now() });
+        consumerEvents.emit(`outbound-done:${accountId}:${msg.id}`, { messageId: result.messageId });
+      }
+    } else if (result.permanent) {
+      if (queue.markOutboundFailed(msg.id, result.error ?? 'Unknown error')) {
+        consumerEvents.emit(`outbound-done:${accountId}:${msg.id}`, { error: result.error });
+      }
+    } else {
+      throw new Error(result.error ?? 'Unknown error');
+    }
+  } catch (err) {
+    console.error(`[OUTBOUND] Failed #${msg.id}:`, (err as Error).message);
+    if (!queue.markOutboundRetry(msg.id, (err as Error).message)) return;
+    if (queue.getOutbound(msg.id)?.status === 'failed_permanent') {
+      consumerEvents.emit(`outbound-done:${accountId}:${msg.id}`, { error: (err as Error).message });
     }
   }
 }
 
-export function notifyInboundEnqueued(): void {
-  consumerEvents.emit('inbound');
+export function notifyInboundEnqueued(accountId: string = DEFAULT_ACCOUNT_ID): void {
+  consumerEvents.emit(`inbound:${accountId}`);
 }
 
-function startConsumers(
+/**
+ * Start the inbound and outbound consumer loops of an account (idempotent)
+ */
+export function startConsumers(
+  accountId: string,
   queue: MessageQueue,
   client: LarkClient,
   gatewayToken: string,
   gatewayPort: number,
-  agentId: string
+  agentId: string,
+  inboundConcurrency: number = DEFAULT_INBOUND_CONCURRENCY,
+  outboundWorkers: number = DEFAULT_OUTBOUND_WORKERS,
+  inboundCoalesceMs: number = 0
 ): void {
-  if (!inboundConsumerRunning) {
-    inboundConsumerRunning = true;
-    console.log('[CONSUMER] 🚀 Starting INBOUND consumer (Lark → Gateway)');
-    consumerEvents.on('inbound', () => {
-      if (inboundConsumerRunning) {
-        processInboundQueue(queue, gatewayToken, gatewayPort, agentId);
+  let state = accountConsumers.get(accountId);
+  if (!state) {
+    state = {
+      inboundRunning: false,
+      outboundRunning: false,
+      inboundConcurrency,
+      inboundCoalesceMs,
+      outboundWorkers,
+      inboundTasks: new Map(),
+      outboundTasks: new Set(),
+      inboundInterval: null,
+      outboundInterval: null,
+      onInbound: null,
+      onOutbound: null,
+    };
+    accountConsumers.set(accountId, state);
+  }
+
+  if (!state.inboundRunning) {
+    state.inboundRunning = true;
+    console.log(`[CONSUMER] 🚀 Starting INBOUND consumer for ${accountId} (Lark → Gateway, ${state.inboundConcurrency} concurrent chats)`);
+    const coalesceMs = state.inboundCoalesceMs;
+    const consumers = state;
+    state.onInbound = () => {
+      processInboundQueue(accountId, queue, gatewayToken, gatewayPort, agentId);
+      if (coalesceMs > 0) {
+        // The new message is held back until its sender is quiet - check again then,
+        // unless this consumer was stopped meanwhile (its queue may be closed by now)
+        setTimeout(() => {
+          if (consumers.inboundRunning) processInboundQueue(accountId, queue, gatewayToken, gatewayPort, agentId);
+        }, coalesceMs + 50).unref();
       }
-    });
-    inboundInterval = setInterval(
-      () => processInboundQueue(queue, gatewayToken, gatewayPort, agentId),
+    };
+    consumerEvents.on(`inbound:${accountId}`, state.onInbound);
+    state.inboundInterval = setInterval(
+      () => processInboundQueue(accountId, queue, gatewayToken, gatewayPort, agentId),
       CONSUMER_FALLBACK_INTERVAL_MS
     );
-    processInboundQueue(queue, gatewayToken, gatewayPort, agentId);
+    processInboundQueue(accountId, queue, gatewayToken, gatewayPort, agentId);
   }
 
-  if (!outboundConsumerRunning) {
-    outboundConsumerRunning = true;
-    console.log('[CONSUMER] 🚀 Starting OUTBOUND consumer (Gateway → Lark)');
-    outboundInterval = setInterval(
-      () => processOutboundQueue(queue, client),
+  if (!state.outboundRunning) {
+    state.outboundRunning = true;
+    console.log(`[CONSUMER] 🚀 Starting OUTBOUND consumer for ${accountId} (Gateway → Lark, ${state.outboundWorkers} workers)`);
+    state.onOutbound = () => {
+      processOutboundQueue(accountId, queue, client);
+    };
+    consumerEvents.on(`outbound:${accountId}`, state.onOutbound);
+    state.outboundInterval = setInterval(
+      () => processOutboundQueue(accountId, queue, client),
       CONSUMER_FALLBACK_INTERVAL_MS
     );
-    processOutboundQueue(queue, client);
+    processOutboundQueue(accountId, queue, client);
   }
 }
 
-function stopConsumers(): void {
-  inboundConsumerRunning = false;
-  outboundConsumerRunning = false;
-  consumerEvents.removeAllListeners('inbound');
+/**
+ * Stop taking new work and wait for in-flight work to settle. Agent runs are
+ * aborted (closing the queue hands their rows back); sends are left to finish.
+ */
+export async function stopConsumers(accountId: string): Promise<void> {
+  const state = accountConsumers.get(accountId);
+  if (!state) return;
+
+  state.inboundRunning = false;
+  state.outboundRunning = false;
+  if (state.onInbound) {
+    consumerEvents.off(`inbound:${accountId}`, state.onInbound);
+    state.onInbound = null;
+  }
+  if (state.onOutbound) {
+    consumerEvents.off(`outbound:${accountId}`, state.onOutbound);
+    state.onOutbound = null;
+  }
+
+  if (state.inboundInterval) {
+    clearInterval(state.inboundInterval);
+    state.inboundInterval = null;
+  }
+  if (state.outboundInterval) {
+    clearInterval(state.outboundInterval);
+    state.outboundInterval = null;
+  }
 
-  if (inboundInterval) {
-    clearInterval(inboundInterval);
-    inboundInterval = null;
+  for (const lease of state.inboundTasks.values()) {
+    lease.abort(new Error('Shutting down'));
   }
-  if (outboundInterval) {
-    clearInterval(outboundInterval);
-    outboundInterval = null;
+  const inFlight = [...state.inboundTasks.keys(), ...state.outboundTasks];
+  if (inFlight.length > 0) {
+    console.log(`[CONSUMER] Waiting for ${inFlight.length} in-flight task(s) of ${accountId}`);
+    await Promise.allSettled(inFlight);
   }
+  accountConsumers.delete(accountId);
 }
 
 // ─── Send to Lark ────────────────────────────────────────────────
 
-// Direct send retries: Also use 120 retries with exponential backoff up to 120 min
-// This is for the outbound.sendText calls from gateway's dispatch system
-const SEND_MAX_RETRIES = 120;
-const SEND_RETRY_BASE_MS = 1000;
-const SEND_RETRY_MAX_MS = 120 * 60 * 1000; // 120 minutes max backoff
+// Lark error codes that will never succeed on retry
+const NON_RETRYABLE_CODES = new Set([
+  99991400,  // content too long
+  99991401,  // invalid content
+  230001,    // permission denied
+  230002,    // bot not in chat
+  230006,    // user not in chat
+  230014,    // message recall timeout
+  232009,    // invalid image key
+]);
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
+type SendOutcome = { skipped?: boolean; messageId?: string; error?: string; permanent?: boolean };
 
 /**
- * Calculate exponential backoff for direct sends
- * Caps at 120 minutes per Boyang's requirement
+ * Single send attempt. Retries are owned by the outbound queue (processOutboundQueue),
+ * so a restart never loses a reply that is waiting for its next attempt. Pass the
+ * row's uuid so Lark drops a retry of a send it already accepted.
  */
-function calculateSendBackoff(attempt: number): number {
-  const backoff = SEND_RETRY_BASE_MS * Math.pow(2, Math.min(attempt - 1, 17));
-  return Math.min(backoff, SEND_RETRY_MAX_MS);
+async function sendToLark(client: LarkClient, msg: OutboundMessage, uuid?: string): Promise<SendOutcome> {
+  const msgType = selectMessageType(msg.content);
+
+  if (msgType === 'skip') {
+    return { skipped: true };
+  }
+
+  let result: { success: boolean; messageId?: string; error?: string };
+  try {
+    if (msgType === 'text') {
+      result = await sendRowMessage(client, msg, 'text', { text: msg.content }, uuid);
+    } else {
+      const card = buildCard({ text: msg.content, sessionKey: msg.session_key });
+      result = await sendRowMessage(client, msg, 'interactive', card, uuid);
+    }
+  } catch (err) {
+    return { error: (err as Error).message };
+  }
+
+  return toSendOutcome(result, msgType);
 }
 
-async function sendToLarkWithRetry(
+function toSendOutcome(result: LarkSendResult, label: string): SendOutcome {
+  if (result.success) {
+    console.log(`[LARK-SENT] ${label}: ${result.messageId}`);
+    return { messageId: result.messageId };
+  }
+
+  const error = result.error ?? 'Unknown error';
+  const codeMatch = error.match(/\b(\d{5,})\b/);
+  if (codeMatch && NON_RETRYABLE_CODES.has(Number(codeMatch[1]))) {
+    console.error(`[LARK-SEND] ❌ Non-retryable error (code ${codeMatch[1]}): ${error}`);
+    return { error, permanent: true };
+  }
+
+  return { error };
+}
+
+// Reply targets that no longer exist; the reply is posted to the chat instead
+const REPLY_TARGET_GONE_CODES = new Set([
+  230011,    // message recalled
+]);
+
+/**
+ * Send a message for an outbound row: a new message in the chat, or a reply to the
+ * row's reply_to_message_id (in its thread if reply_in_thread)
+ */
+async function sendRowMessage(
   client: LarkClient,
+  msg: OutboundMessage,
+  msgType: LarkMsgType,
+  content: object,
+  uuid?: string
+): Promise<LarkSendResult> {
+  if (!msg.reply_to_message_id) {
+    return client.sendMessage(msg.chat_id, msgType, content, uuid);
+  }
+
+  const result = await client.replyMessage(msg.reply_to_message_id, msgType, content, {
+    replyInThread: msg.reply_in_thread === 1,
+    uuid,
+  });
+  const codeMatch = result.error?.match(/\b(\d{5,})\b/);
+  if (codeMatch && REPLY_TARGET_GONE_CODES.has(Number(codeMatch[1]))) {
+    console.warn(`[LARK-SEND] Reply target ${msg.reply_to_message_id} is gone, sending to the chat instead`);
+    return client.sendMessage(msg.chat_id, msgType, content, uuid);
+  }
+  return result;
+}
+
+/**
+ * Send one outbound row by payload type. The row's persisted uuid makes every retry
+ * of it (even after a restart) idempotent.
+ */
+async function sendOutboundRow(client: LarkClient, queue: MessageQueue, msg: OutboundMessage): Promise<SendOutcome> {
+  const uuid = msg.lark_uuid ?? undefined;
+
+  switch (msg.payload_type) {
+    case 'card': {
+      let card: LarkCard;
+      try {
+        card = JSON.parse(msg.content) as LarkCard;
+      } catch {
+        return { error: 'Invalid card JSON', permanent: true };
+      }
+      return toSendOutcome(await sendRowMessage(client, msg, 'interactive', card, uuid), 'card');
+    }
+    case 'image':
+    case 'file':
+      return sendMediaRow(client, queue, msg, uuid);
+    default:
+      return sendToLark(client, msg, uuid);
+  }
+}
+
+// ─── Durable Delivery ────────────────────────────────────────────
+
+/**
+ * Note prepended to the first new block of a retried reply
+ */
+function formatRetryBanner(deliveredBlocks: number): string {
+  return `_↻ Reply resumed after a retry (${deliveredBlocks} earlier part${deliveredBlocks === 1 ? '' : 's'} already sent above)_`;
+}
+
+type ReplyTarget = { replyTo?: string; replyInThread?: boolean };
+
+/**
+ * Where replies to an inbound message go, from replyMode (the group's, else the
+ * account's): 'new' posts to the chat, 'quote' replies to the message, 'thread'
+ * replies in its thread. A message that arrived inside a thread is always
+ * answered in that thread.
+ */
+function resolveReplyTarget(config: LarkChannelConfig, msg: InboundMessage): ReplyTarget {
+  const mode = config.groups?.[msg.chat_id]?.replyMode ?? config.replyMode ?? 'new';
+  if (msg.thread_id || mode === 'thread') {
+    return { replyTo: msg.message_id, replyInThread: true };
+  }
+  if (mode === 'quote') {
+    return { replyTo: msg.message_id };
+  }
+  return {};
+}
+
+/**
+ * Reply target for a gateway-initiated send. A send addressed to a thread without
+ * a message to reply to goes to the thread's latest inbound message.
+ */
+function resolveOutboundTarget(
+  queue: MessageQueue,
   chatId: string,
-  content: string,
-  sessionKey?: string
-): Promise<{ skipped?: boolean; messageId?: string; error?: string }> {
-  const msgType = selectMessageType(content);
+  replyToId?: string | null,
+  threadId?: string | number | null
+): ReplyTarget {
+  const inThread = threadId != null && String(threadId) !== '';
+  const replyTo = replyToId ?? (inThread ? queue.getLatestThreadMessageId(chatId, String(threadId)) : undefined);
+  return replyTo ? { replyTo, replyInThread: inThread } : {};
+}
 
-  if (msgType === 'skip') {
+// How long a caller waits for the outbound consumer before returning.
+// The message stays queued and is still delivered after the timeout.
+const OUTBOUND_AWAIT_TIMEOUT_MS = 60_000;
+
+type OutboundResult = { outboundId?: number; messageId?: string; error?: string; queued?: boolean; skipped?: boolean };
+
+/**
+ * Enqueue a message to outbound_queue and wait until the outbound consumer has
+ * delivered it (or given up on it), or until the timeout expires.
+ */
+async function deliverViaQueue(
+  accountId: string,
+  queue: MessageQueue,
+  queueType: 'reply' | 'mirror',
+  params: {
+    runId?: string;
+    sessionKey: string;
+    chatId: string;
+    content: string;
+    payloadType?: OutboundPayloadType;
+    media?: OutboundMediaRef;
+    replyTo?: string;
+    replyInThread?: boolean;
+    idempotencyKey?: string;
+  },
+  timeoutMs: number = OUTBOUND_AWAIT_TIMEOUT_MS
+): Promise<OutboundResult> {
+  const enqueued = queue.enqueueOutbound(queueType, params);
+  if (!enqueued.enqueued) {
+    console.log(`[DELIVER] ⏭️ Not enqueued: ${enqueued.reason}${enqueued.id !== undefined ? ` (original #${enqueued.id})` : ''}`);
+    const inFlight = enqueued.existing === 'pending' || enqueued.existing === 'processing';
+    if (!inFlight || enqueued.id === undefined) {
+      return { outboundId: enqueued.id, messageId: enqueued.larkMessageId ?? undefined, skipped: true };
+    }
+    // The original is still queued - wait for it like the first caller would
+  }
+  if (enqueued.id === undefined) {
     return { skipped: true };
   }
 
-  const NON_RETRYABLE_CODES = new Set([
-    99991400,  // content too long
-    99991401,  // invalid content
-    230001,    // permission denied
-    230002,    // bot not in chat
-    230006,    // user not in chat
-    230014,    // message recall timeout
-    232009,    // invalid image key
-  ]);
+  const id = enqueued.id;
+  const done = new Promise<OutboundResult>((resolve) => {
+    const onDone = (result: OutboundResult) => {
+      clearTimeout(timer);
+      resolve({ outboundId: id, ...result });
+    };
+    const timer = setTimeout(() => {
+      consumerEvents.off(`outbound-done:${accountId}:${id}`, onDone);
+      console.warn(`[DELIVER] ⏳ #${id} not delivered within ${Math.round(timeoutMs / 1000)}s - left in queue for retry`);
+      resolve({ outboundId: id, queued: true });
+    }, timeoutMs);
+    consumerEvents.once(`outbound-done:${accountId}:${id}`, onDone);
+  });
+
+  consumerEvents.emit(`outbound:${accountId}`);
+  return done;
+}
 
-  let lastError: string | undefined;
+/**
+ * Get rid of a streaming placeholder card whose send outlasted deliverViaQueue's
+ * wait: cancel it while still queued, otherwise delete it once it was sent.
+ */
+function discardLateCard(accountId: string, queue: MessageQueue, outboundId: number): void {
+  if (queue.cancelOutbound(outboundId, 'streaming placeholder not sent in time')) return;
 
-  for (let attempt = 1; attempt <= SEND_MAX_RETRIES; attempt++) {
-    try {
-      let result: { success: boolean; messageId?: string; error?: string };
+  const remove = (messageId: string) => {
+    console.log(`[STREAM] Deleting late placeholder card ${messageId} (#${outboundId})`);
+    void getLarkClient(accountId).deleteMessage(messageId);
+  };
+  const sent = queue.getOutbound(outboundId)?.lark_message_id;
+  if (sent) {
+    remove(sent);
+    return;
+  }
+  consumerEvents.once(`outbound-done:${accountId}:${outboundId}`, (result: OutboundResult) => {
+    if (result.messageId) remove(result.messageId);
+  });
+}
 
-      if (msgType === 'text') {
-        result = await client.sendText(chatId, content);
-      } else {
-        const card = buildCard({ text: content, sessionKey });
-        result = await client.sendCard(chatId, card);
-      }
+// ─── Media Delivery ──────────────────────────────────────────────
 
-      if (result.success) {
-        console.log(`[LARK-SENT] ${msgType}: ${result.messageId}${attempt > 1 ? ` (attempt ${attempt})` : ''}`);
-        return { messageId: result.messageId };
-      }
+/**
+ * Turn a media URL into an outbound image/file reference. http(s) URLs and local
+ * paths are stored as-is and loaded at send time; data: URLs are written to the
+ * media store first so the queue row stays small.
+ */
+async function prepareOutboundMedia(
+  queue: MessageQueue,
+  chatId: string,
+  mediaUrl: string
+): Promise<{ payloadType: 'image' | 'file'; media: OutboundMediaRef }> {
+  if (mediaUrl.startsWith('data:')) {
+    const loaded = await loadMedia(mediaUrl);
+    const stored = queue.media.putBuffer(loaded.buffer, loaded.mimeType, chatId, loaded.fileName);
+    return {
+      payloadType: loaded.mimeType.startsWith('image/') ? 'image' : 'file',
+      media: { url: stored.path, mimeType: loaded.mimeType, fileName: loaded.fileName },
+    };
+  }
 
-      lastError = result.error ?? 'Unknown error';
+  const pathname = /^https?:\/\//i.test(mediaUrl) ? new URL(mediaUrl).pathname : mediaUrl;
+  return {
+    payloadType: mimeTypeFor(pathname).startsWith('image/') ? 'image' : 'file',
+    media: { url: mediaUrl },
+  };
+}
 
-      const codeMatch = lastError.match(/\b(\d{5,})\b/);
-      if (codeMatch && NON_RETRYABLE_CODES.has(Number(codeMatch[1]))) {
-        console.error(`[LARK-SEND] ❌ Non-retryable error (code ${codeMatch[1]}): ${lastError}`);
-        return { error: lastError };
-      }
+/**
+ * Directories outbound media may be read from: the media store (data: URLs are
+ * written there) plus the account's mediaLocalRoots
+ */
+function mediaLocalRoots(queue: MessageQueue, accountId: string): string[] {
+  const cfg = getLarkRuntime().config.loadConfig() as { channels?: { lark?: LarkChannelConfig } };
+  return [queue.media.dir, ...(resolveLarkAccount({ cfg, accountId }).config.mediaLocalRoots ?? [])];
+}
+
+/**
+ * Upload outbound media, picking the Lark message type from the mime type:
+ * - images (up to 10MB) → image_key, sent as a card with the caption
+ * - opus audio → audio message, mp4 video → media message
+ * - anything else (and audio/video Lark can't play inline) → file message
+ */
+async function uploadMedia(
+  client: LarkClient,
+  media: LoadedMedia
+): Promise<{ key?: string; type?: OutboundUploadType; error?: string }> {
+  if (media.mimeType.startsWith('image/') && media.buffer.byteLength <= MAX_IMAGE_UPLOAD_BYTES) {
+    const upload = await client.uploadImage(media.buffer, media.fileName);
+    return upload.imageKey
+      ? { key: upload.imageKey, type: 'image' }
+      : { error: upload.error ?? 'Failed to upload image' };
+  }
+
+  const fileType = larkFileType(media.mimeType);
+  const upload = await client.uploadFile(media.buffer, media.fileName, fileType);
+  if (!upload.fileKey) {
+    return { error: upload.error ?? 'Failed to upload file' };
+  }
+  return { key: upload.fileKey, type: fileType === 'opus' ? 'audio' : fileType === 'mp4' ? 'media' : 'file' };
+}
+
+/**
+ * Send an image/file row. The upload's key is saved on the row, so a retry after a
+ * successful upload (failed send, crash) only repeats the send. A caption on a
+ * non-image message goes out as a card just before it.
+ */
+async function sendMediaRow(
+  client: LarkClient,
+  queue: MessageQueue,
+  msg: OutboundMessage,
+  uuid?: string
+): Promise<SendOutcome> {
+  let key = msg.upload_key;
+  let type = msg.upload_type;
+
+  if (!key || !type) {
+    const ref = JSON.parse(msg.media_json ?? '{}') as Partial<OutboundMediaRef>;
+    if (!ref.url) {
+      return { error: 'Outbound media row has no media reference', permanent: true };
+    }
 
-      console.warn(`[LARK-SEND] Attempt ${attempt}/${SEND_MAX_RETRIES} failed: ${lastError}`);
+    let media: LoadedMedia;
+    try {
+      media = await loadMedia(ref.url, undefined, mediaLocalRoots(queue, msg.account_id));
     } catch (err) {
-      lastError = (err as Error).message;
-      console.warn(`[LARK-SEND] Attempt ${attempt}/${SEND_MAX_RETRIES} threw: ${lastError}`);
+      const error = `Failed to load media: ${(err as Error).message}`;
+      // A missing, disallowed or oversized local file will not fix itself
+      const permanent = (err as NodeJS.ErrnoException).code === 'ENOENT' || /too large|not allowed/.test(error);
+      return { error, permanent };
     }
+    media = { ...media, mimeType: ref.mimeType ?? media.mimeType, fileName: ref.fileName ?? media.fileName };
 
-    if (attempt < SEND_MAX_RETRIES) {
-      const backoffMs = calculateSendBackoff(attempt);
-      const backoffFormatted = backoffMs >= 60000 
-        ? `${Math.round(backoffMs / 60000)}m` 
-        : `${Math.round(backoffMs / 1000)}s`;
-      console.log(`[LARK-SEND] Next retry in ${backoffFormatted}`);
-      await sleep(backoffMs);
+    const upload = await uploadMedia(client, media);
+    if (!upload.key || !upload.type) {
+      return toSendOutcome({ success: false, error: upload.error }, msg.payload_type);
     }
+    key = upload.key;
+    type = upload.type;
+    queue.setOutboundUpload(msg.id, key, type);
   }
 
-  console.error(`[LARK-SEND] ❌ FAILED after ${SEND_MAX_RETRIES} attempts: ${lastError}`);
-  return { error: lastError };
-}
+  if (type === 'image') {
+    const card = buildCard({ text: msg.content, sessionKey: undefined });
+    card.elements = [
+      {
+        tag: 'img',
+        img_key: key,
+        alt: { tag: 'plain_text', content: 'Image' },
+      },
+      ...(card.elements ?? []),
+    ];
+    return toSendOutcome(await sendRowMessage(client, msg, 'interactive', card, uuid), 'image');
+  }
 
-// Alias for backward compatibility
-const sendToLark = sendToLarkWithRetry;
+  if (msg.content.trim()) {
+    const caption = await sendRowMessage(
+      client,
+      msg,
+      'interactive',
+      buildCard({ text: msg.content, sessionKey: undefined }),
+      uuid ? `${uuid}-caption` : undefined
+    );
+    if (!caption.success) {
+      return toSendOutcome(caption, 'caption');
+    }
+  }
+
+  const result = await sendRowMessage(client, msg, type, { file_key: key }, uuid);
+  return toSendOutcome(result, type);
+}
 
 // ─── Channel Plugin Interface ────────────────────────────────────
 
@@ -719,9 +1381,10 @@ export const larkPlugin = {
   capabilities: {
     chatTypes: ['direct', 'group'] as const,
     reactions: false,
-    threads: false,
+    threads: true,
     media: true,
     nativeCommands: false,
+    // Replies stream into one card that is patched as the agent writes (blockStreaming config)
     blockStreaming: true,
   },
 
@@ -832,39 +1495,56 @@ export const larkPlugin = {
     chunkerMode: 'markdown' as const,
     textChunkLimit: 30000,
 
-    sendText: async ({ to, text }: { to: string; text: string; accountId?: string }) => {
-      const client = getLarkClient();
-      const result = await sendToLark(client, to, text);
+    sendText: async ({ to, text, accountId, replyToId, threadId }: {
+      to: string;
+      text: string;
+      accountId?: string;
+      replyToId?: string | null;
+      threadId?: string | number | null;
+    }) => {
+      const id = accountId ?? DEFAULT_ACCOUNT_ID;
+      const queue = findQueue(id);
+      if (!queue) {
+        return { channel: 'lark' as const, error: `Lark account "${id}" is not running` };
+      }
+      const result = await deliverViaQueue(id, queue, 'mirror', {
+        sessionKey: `lark:${to}`,
+        chatId: to,
+        content: text,
+        ...resolveOutboundTarget(queue, to, replyToId, threadId),
+      });
       return { channel: 'lark' as const, ...result };
     },
 
-    sendMedia: async ({ to, text, mediaUrl }: { to: string; text?: string; mediaUrl: string; accountId?: string }) => {
-      const client = getLarkClient();
+    sendMedia: async ({ to, text, mediaUrl, accountId, replyToId, threadId }: {
+      to: string;
+      text?: string;
+      mediaUrl: string;
+      accountId?: string;
+      replyToId?: string | null;
+      threadId?: string | number | null;
+    }) => {
+      const id = accountId ?? DEFAULT_ACCOUNT_ID;
+      const queue = findQueue(id);
+      if (!queue) {
+        return { channel: 'lark' as const, error: `Lark account "${id}" is not running` };
+      }
 
-      // Upload image
-      const uploadResult = await client.uploadImageFromUrl(mediaUrl);
-      if (!uploadResult.success || !uploadResult.imageKey) {
-        return { channel: 'lark' as const, error: uploadResult.error ?? 'Failed to upload image' };
+      let media: { payloadType: 'image' | 'file'; media: OutboundMediaRef };
+      try {
+        media = await prepareOutboundMedia(queue, to, mediaUrl);
+      } catch (e) {
+        return { channel: 'lark' as const, error: `Failed to load media: ${(e as Error).message}` };
       }
 
-      // Send card with image
-      const card = buildCard({
-        text: text ?? '',
-        sessionKey: undefined,
+      const result = await deliverViaQueue(id, queue, 'mirror', {
+        sessionKey: `lark:${to}`,
+        chatId: to,
+        content: text ?? '',
+        ...media,
+        ...resolveOutboundTarget(queue, to, replyToId, threadId),
       });
-
-      // Add image to card
-      card.elements = [
-        {
-          tag: 'img',
-          img_key: uploadResult.imageKey,
-          alt: { tag: 'plain_text', content: 'Image' },
-        },
-        ...(card.elements ?? []),
-      ];
-
-      const result = await client.sendCard(to, card);
-      return { channel: 'lark' as const, messageId: result.messageId, error: result.error };
+      return { channel: 'lark' as const, ...result };
     },
   },
 
@@ -909,11 +1589,11 @@ export const larkPlugin = {
       return issues;
     },
 
-    buildChannelSummary: ({ snapshot }: { snapshot: LarkRuntimeState & { configured?: boolean; tokenSource?: string; probe?: LarkProbeResult } }) => ({
+    buildChannelSummary: ({ snapshot }: { snapshot: LarkRuntimeState & { configured?: boolean; tokenSource?: string; mode?: 'webhook' | 'websocket'; probe?: LarkProbeResult } }) => ({
       configured: snapshot.configured ?? false,
       tokenSource: snapshot.tokenSource ?? 'none',
       running: snapshot.running ?? false,
-      mode: 'webhook' as const,
+      mode: snapshot.mode ?? 'webhook',
       lastStartAt: snapshot.lastStartAt ?? null,
       lastStopAt: snapshot.lastStopAt ?? null,
       lastError: snapshot.lastError ?? null,
@@ -949,7 +1629,7 @@ export const larkPlugin = {
       lastStartAt: runtime?.lastStartAt ?? null,
       lastStopAt: runtime?.lastStopAt ?? null,
       lastError: runtime?.lastError ?? null,
-      mode: 'webhook',
+      mode: account.connectionMode,
       probe,
       lastInboundAt: runtime?.lastInboundAt ?? null,
       lastOutboundAt: runtime?.lastOutboundAt ?? null,
@@ -984,7 +1664,13 @@ export const larkPlugin = {
 
       // Initialize queue
       const queuePath = account.config.queueDbPath ?? undefined;
-      const queue = getQueue(queuePath);
+      const mbToBytes = (mb?: number) => (mb === undefined ? undefined : mb * 1024 * 1024);
+      const queue = getQueue(queuePath, account.accountId, {
+        media: {
+          maxTotalBytes: mbToBytes(account.config.mediaQuotaMb),
+          maxChatBytes: mbToBytes(account.config.mediaChatQuotaMb),
+        },
+      });
 
       // Build group allowlist
       const groupAllowlist = account.config.groups
@@ -997,11 +1683,15 @@ export const larkPlugin = {
       const groupAllowFromArr: string[] = account.config.groupAllowFrom ?? [];
       const groupAllowFrom = groupAllowFromArr.length > 0 ? new Set(groupAllowFromArr) : undefined;
 
-      // Start webhook
+      // Event handler (registers on the shared HTTP server in webhook mode)
       const webhook = new WebhookHandler({
+        accountId: account.accountId,
+        appId: account.appId,
         port: account.webhookPort,
         bind: account.webhookBind,
         encryptKey: account.encryptKey,
+        verificationToken: account.verificationToken,
+        signatureMaxSkewSec: account.config.signatureMaxSkewSec,
         queue,
         client,
         sessionKeyPrefix: 'lark',
@@ -1011,7 +1701,21 @@ export const larkPlugin = {
         dmAllowFrom,
       });
 
-      await webhook.start();
+      // Start event source: HTTP webhook server or Lark long connection
+      let wsHandler: WebSocketHandler | null = null;
+      if (account.connectionMode === 'websocket') {
+        wsHandler = new WebSocketHandler({
+          appId: account.appId,
+          appSecret: account.appSecret,
+          domain: account.domain,
+          onEvent: async (event) => {
+            await webhook.handleEvent(event);
+          },
+        });
+        await wsHandler.start();
+      } else {
+        await webhook.start();
+      }
 
       // Get gateway config
       const gatewayPort = cfg.gateway?.port ?? 18789;
@@ -1019,7 +1723,17 @@ export const larkPlugin = {
       const agentId = 'main';
 
       // Start consumers
-      startConsumers(queue, client, gatewayToken, gatewayPort, agentId);
+      startConsumers(
+        account.accountId,
+        queue,
+        client,
+        gatewayToken,
+        gatewayPort,
+        agentId,
+        account.config.inboundConcurrency ?? DEFAULT_INBOUND_CONCURRENCY,
+        account.config.outboundWorkers ?? DEFAULT_OUTBOUND_WORKERS,
+        account.config.inboundCoalesceMs ?? 0
+      );
 
       // Update runtime state - clear any previous error
       setAccountRuntime(account.accountId, {
@@ -1034,11 +1748,20 @@ export const larkPlugin = {
       await new Promise<void>((resolve) => {
         if (!abortSignal) return;
         if (abortSignal.aborted) { resolve(); return; }
-        abortSignal.addEventListener('abort', () => {
+        abortSignal.addEventListener('abort', async () => {
           log?.info(`[${account.accountId}] Stopping Lark channel`);
-          webhook.stop();
-          stopConsumers();
-          closeQueue();
+          try {
+            if (wsHandler) {
+              await wsHandler.stop();
+            } else {
+              await webhook.stop();
+            }
+            // In-flight dispatches and sends still use the queue - close it only after them
+            await stopConsumers(account.accountId);
+            closeQueue(account.accountId);
+          } catch (err) {
+            console.error(`[${account.accountId}] Error while stopping:`, (err as Error).message);
+          }
           setAccountRuntime(account.accountId, {
             running: false,
             lastStopAt: Date.now(),
@@ -1049,6 +1772,10 @@ export const larkPlugin = {
         });
       });
 
+      const eventsLine = wsHandler
+        ? 'Events:  Lark long connection (websocket)'.padEnd(61)
+        : `Webhook: http://${account.webhookBind}:${String(account.webhookPort).padEnd(37 - account.webhookBind.length)}`;
+
       console.log(`
 ╔═══════════════════════════════════════════════════════════════════╗
 ║            Lark Channel Plugin v1.0.0                             ║
@@ -1057,7 +1784,7 @@ export const larkPlugin = {
 ║  ♾️  UNLIMITED retries with exponential backoff                   ║
 ║  ⚡ NO MESSAGE LOSS - EVER                                        ║
 ╠═══════════════════════════════════════════════════════════════════╣
-║  Webhook: http://${account.webhookBind}:${String(account.webhookPort).padEnd(37 - account.webhookBind.length)}║
+║  ${eventsLine}║
 ║  Queue:   ${queue.path.padEnd(52)}║
 ╚═══════════════════════════════════════════════════════════════════╝
 `);
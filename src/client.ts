@@ -3,23 +3,211 @@
  * 
  * Typed wrapper around Lark SDK with:
  * - Token caching and auto-refresh
- * - Image upload/download
- * - Message sending (text, post, interactive)
+ * - Image/file upload, streaming media downloads
+ * - Message sending and replies (text, post, interactive, image, file, audio, video)
  * - Error handling
  */
 
 import * as LarkSDK from '@larksuiteoapi/node-sdk';
 import fs from 'node:fs';
 import path from 'node:path';
+import crypto from 'node:crypto';
 import type {
   LarkTokenCache,
   LarkSendResult,
+  LarkMsgType,
   LarkImageUploadResult,
+  LarkFileUploadResult,
+  LarkFileType,
   LarkCard,
   LarkProbeResult,
   ParsedPostContent,
-  ImageAttachment,
+  DownloadedMedia,
+  LoadedMedia,
 } from './types.js';
+import { extensionFor, mimeTypeFor, resolveMediaPath } from './media-store.js';
+
+// ─── Media Downloads ─────────────────────────────────────────────
+
+// Support for large attachments up to 200MB as per Boyang's requirement
+export const MAX_ATTACHMENT_BYTES = 200 * 1024 * 1024; // 200 MB
+
+/**
+ * File name for a downloaded resource: sanitized base name + timestamp + extension
+ */
+function mediaFileName(mimeType: string, preferredName: string): string {
+  const baseName = path.parse(preferredName).name.replace(/[^a-zA-Z0-9_\-]/g, '_').slice(0, 50);
+  return `${baseName}_${Date.now()}${extensionFor(mimeType, preferredName)}`;
+}
+
+/**
+ * Stream a response body to destDir/fileName without buffering it in memory.
+ *
+ * The body goes to a temp file that is fsync'd and renamed into place, so a
+ * crash never leaves a truncated file under the final name. Bodies larger than
+ * maxBytes are rejected up front from Content-Length and again while streaming
+ * (the header may be missing or wrong).
+ */
+export async function saveResponseToFile(
+  res: Response,
+  destDir: string,
+  fileName: string,
+  maxBytes: number = MAX_ATTACHMENT_BYTES
+): Promise<{ path: string; sha256: string; size: number }> {
+  const declared = Number(res.headers.get('content-length'));
+  if (declared > maxBytes) {
+    await res.body?.cancel();
+    throw new Error(`Resource too large: ${Math.round(declared / 1024 / 1024)}MB exceeds ${Math.round(maxBytes / 1024 / 1024)}MB limit`);
+  }
+  if (!res.body) {
+    throw new Error('Empty response body');
+  }
+
+  await fs.promises.mkdir(destDir, { recursive: true, mode: 0o700 });
+  const finalPath = path.join(destDir, fileName);
+  const tempPath = `${finalPath}.${crypto.randomUUID().slice(0, 8)}.part`;
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+
+  const handle = await fs.promises.open(tempPath, 'wx', 0o600);
+  try {
+    for await (const chunk of res.body as unknown as AsyncIterable<Uint8Array>) {
+      size += chunk.byteLength;
+      if (size > maxBytes) {
+        throw new Error(`Resource too large: exceeds ${Math.round(maxBytes / 1024 / 1024)}MB limit`);
+      }
+      hash.update(chunk);
+      await handle.write(chunk);
+    }
+    await handle.sync();
+    await handle.close();
+    await fs.promises.rename(tempPath, finalPath);
+  } catch (e) {
+    await handle.close().catch(() => { /* already closed */ });
+    await fs.promises.rm(tempPath, { force: true });
+    throw e;
+  }
+
+  return { path: finalPath, sha256: hash.digest('hex'), size };
+}
+
+// ─── Media Uploads ───────────────────────────────────────────────
+
+// Lark's upload limits (im.v1.image.create / im.v1.file.create)
+export const MAX_IMAGE_UPLOAD_BYTES = 10 * 1024 * 1024; // 10 MB
+export const MAX_FILE_UPLOAD_BYTES = 30 * 1024 * 1024;  // 30 MB
+
+/**
+ * Lark file_type for an upload. Audio messages must be opus, video messages mp4;
+ * anything Lark has no dedicated type for is uploaded as a plain stream.
+ */
+export function larkFileType(mimeType: string): LarkFileType {
+  switch (mimeType.toLowerCase()) {
+    case 'audio/ogg':
+    case 'audio/opus':
+      return 'opus';
+    case 'video/mp4':
+      return 'mp4';
+    case 'application/pdf':
+      return 'pdf';
+    case 'application/msword':
+    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+      return 'doc';
+    case 'application/vnd.ms-excel':
+    case 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+      return 'xls';
+    case 'application/vnd.ms-powerpoint':
+    case 'application/vnd.openxmlformats-officedocument.presentationml.presentation':
+      return 'ppt';
+    default:
+      return 'stream';
+  }
+}
+
+/**
+ * Check that a resolved path lies inside one of the given directories. Roots are
+ * resolved too (symlinks, `~/`); roots that do not exist are ignored.
+ */
+async function isInsideRoots(realPath: string, roots: string[]): Promise<boolean> {
+  for (const root of roots) {
+    const realRoot = await fs.promises.realpath(resolveMediaPath(root)).catch(() => null);
+    if (!realRoot) continue;
+    const relative = path.relative(realRoot, realPath);
+    if (relative && relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Load outbound media into memory from an http(s) URL, a file:// URL,
+ * a data: URL or a local path (`~/` is expanded).
+ *
+ * Local files are only read from inside localRoots (after resolving symlinks), so
+ * a reply cannot send arbitrary files from the host; with no roots none are read.
+ *
+ * The mime type comes from the data: URL or Content-Type header when present,
+ * else from the file extension.
+ */
+export async function loadMedia(
+  url: string,
+  maxBytes: number = MAX_FILE_UPLOAD_BYTES,
+  localRoots: string[] = []
+): Promise<LoadedMedia> {
+  const tooLarge = (size: number) =>
+    new Error(`Media too large: ${Math.round(size / 1024 / 1024)}MB exceeds ${Math.round(maxBytes / 1024 / 1024)}MB limit`);
+
+  if (url.startsWith('data:')) {
+    const match = url.match(/^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s);
+    if (!match) throw new Error('Malformed data: URL');
+    const mimeType = match[1] || 'application/octet-stream';
+    const buffer = match[2].split(';').includes('base64')
+      ? Buffer.from(match[3], 'base64')
+      : Buffer.from(decodeURIComponent(match[3]), 'utf8');
+    if (buffer.byteLength > maxBytes) throw tooLarge(buffer.byteLength);
+    return { buffer, mimeType, fileName: `file${extensionFor(mimeType)}` };
+  }
+
+  if (/^https?:\/\//i.test(url)) {
+    const res = await fetch(url);
+    if (!res.ok) {
+      await res.body?.cancel();
+      throw new Error(`Failed to fetch: ${res.status}`);
+    }
+    const declared = Number(res.headers.get('content-length'));
+    if (declared > maxBytes) {
+      await res.body?.cancel();
+      throw tooLarge(declared);
+    }
+    // Read with a running cap: the header may be missing (chunked) or wrong
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of (res.body ?? []) as unknown as AsyncIterable<Uint8Array>) {
+      size += chunk.byteLength;
+      if (size > maxBytes) throw tooLarge(size);
+      chunks.push(Buffer.from(chunk));
+    }
+    const buffer = Buffer.concat(chunks, size);
+
+    const baseName = path.basename(decodeURIComponent(new URL(url).pathname)) || 'file';
+    const headerType = res.headers.get('content-type')?.split(';')[0].trim();
+    const mimeType = headerType && headerType !== 'application/octet-stream' ? headerType : mimeTypeFor(baseName);
+    return { buffer, mimeType, fileName: path.extname(baseName) ? baseName : `${baseName}${extensionFor(mimeType)}` };
+  }
+
+  const filePath = await fs.promises.realpath(resolveMediaPath(url));
+  if (!(await isInsideRoots(filePath, localRoots))) {
+    throw new Error(`Local file not allowed: ${filePath} is outside the allowed media directories`);
+  }
+  const stat = await fs.promises.stat(filePath);
+  if (stat.size > maxBytes) throw tooLarge(stat.size);
+  return {
+    buffer: await fs.promises.readFile(filePath),
+    mimeType: mimeTypeFor(filePath),
+    fileName: path.basename(filePath),
+  };
+}
 
 // ─── Client Class ────────────────────────────────────────────────
 
@@ -179,18 +367,24 @@ export class LarkClient {
   }
 
   // ─── Message Sending ───────────────────────────────────────────
+  //
+  // Every send accepts an optional `uuid`: Lark's idempotency key for
+  // im.v1.message.create / reply. Repeating a send with the same uuid (within
+  // Lark's 1-hour dedup window) returns the original message instead of
+  // posting a duplicate, so a retry after a timeout is safe.
 
   /**
-   * Send a text message
+   * Send a message of any type to a chat
    */
-  async sendText(chatId: string, text: string): Promise<LarkSendResult> {
+  async sendMessage(chatId: string, msgType: LarkMsgType, content: object, uuid?: string): Promise<LarkSendResult> {
     try {
       const res = await this.sdk.im.v1.message.create({
         params: { receive_id_type: 'chat_id' },
         data: {
           receive_id: chatId,
-          msg_type: 'text',
-          content: JSON.stringify({ text }),
+          msg_type: msgType,
+          content: JSON.stringify(content),
+          uuid,
         },
       });
 
@@ -205,16 +399,23 @@ export class LarkClient {
   }
 
   /**
-   * Send an interactive card message
+   * Reply to a message. The reply quotes it; with replyInThread it goes into the
+   * message's thread instead (starting one if the message is not in a thread yet).
    */
-  async sendCard(chatId: string, card: LarkCard): Promise<LarkSendResult> {
+  async replyMessage(
+    messageId: string,
+    msgType: LarkMsgType,
+    content: object,
+    options: { replyInThread?: boolean; uuid?: string } = {}
+  ): Promise<LarkSendResult> {
     try {
-      const res = await this.sdk.im.v1.message.create({
-        params: { receive_id_type: 'chat_id' },
+      const res = await this.sdk.im.v1.message.reply({
+        path: { message_id: messageId },
         data: {
-          receive_id: chatId,
-          msg_type: 'interactive',
-          content: JSON.stringify(card),
+          msg_type: msgType,
+          content: JSON.stringify(content),
+          reply_in_thread: options.replyInThread,
+          uuid: options.uuid,
         },
       });
 
@@ -228,82 +429,106 @@ export class LarkClient {
     }
   }
 
+  /**
+   * Send a text message
+   */
+  async sendText(chatId: string, text: string, uuid?: string): Promise<LarkSendResult> {
+    return this.sendMessage(chatId, 'text', { text }, uuid);
+  }
+
+  /**
+   * Send an interactive card message
+   */
+  async sendCard(chatId: string, card: LarkCard, uuid?: string): Promise<LarkSendResult> {
+    return this.sendMessage(chatId, 'interactive', card, uuid);
+  }
+
   /**
    * Send a post (rich text) message
    */
-  async sendPost(chatId: string, content: object): Promise<LarkSendResult> {
+  async sendPost(chatId: string, content: object, uuid?: string): Promise<LarkSendResult> {
+    return this.sendMessage(chatId, 'post', content, uuid);
+  }
+
+  /**
+   * Send an image message
+   */
+  async sendImage(chatId: string, imageKey: string, uuid?: string): Promise<LarkSendResult> {
+    return this.sendMessage(chatId, 'image', { image_key: imageKey }, uuid);
+  }
+
+  /**
+   * Send a file message (file_key from uploadFile)
+   */
+  async sendFile(chatId: string, fileKey: string, uuid?: string): Promise<LarkSendResult> {
+    return this.sendMessage(chatId, 'file', { file_key: fileKey }, uuid);
+  }
+
+  /**
+   * Send an audio message (file_key of an opus upload)
+   */
+  async sendAudio(chatId: string, fileKey: string, uuid?: string): Promise<LarkSendResult> {
+    return this.sendMessage(chatId, 'audio', { file_key: fileKey }, uuid);
+  }
+
+  /**
+   * Send a video message (file_key of an mp4 upload, optional cover image_key)
+   */
+  async sendMedia(chatId: string, fileKey: string, coverImageKey?: string, uuid?: string): Promise<LarkSendResult> {
+    return this.sendMessage(chatId, 'media', { file_key: fileKey, image_key: coverImageKey }, uuid);
+  }
+
+  // ─── Message Updates ───────────────────────────────────────────
+
+  /**
+   * Replace the content of a card the bot sent. The card must have been sent
+   * with config.update_multi, and Lark only allows updates for 14 days.
+   */
+  async patchCard(messageId: string, card: LarkCard): Promise<LarkSendResult> {
     try {
-      const res = await this.sdk.im.v1.message.create({
-        params: { receive_id_type: 'chat_id' },
-        data: {
-          receive_id: chatId,
-          msg_type: 'post',
-          content: JSON.stringify(content),
-        },
+      const res = await this.sdk.im.v1.message.patch({
+        path: { message_id: messageId },
+        data: { content: JSON.stringify(card) },
       });
 
-      if (res?.data?.message_id) {
-        return { success: true, messageId: res.data.message_id };
+      if (res?.code) {
+        return { success: false, error: `${res.msg ?? 'Patch failed'} (code ${res.code})` };
       }
 
-      return { success: false, error: 'No message_id in response' };
+      return { success: true, messageId };
     } catch (e) {
       return { success: false, error: (e as Error).message };
     }
   }
 
   /**
-   * Send an image message
+   * Recall a message the bot sent
    */
-  async sendImage(chatId: string, imageKey: string): Promise<LarkSendResult> {
+  async deleteMessage(messageId: string): Promise<boolean> {
     try {
-      const res = await this.sdk.im.v1.message.create({
-        params: { receive_id_type: 'chat_id' },
-        data: {
-          receive_id: chatId,
-          msg_type: 'image',
-          content: JSON.stringify({ image_key: imageKey }),
-        },
-      });
-
-      if (res?.data?.message_id) {
-        return { success: true, messageId: res.data.message_id };
-      }
-
-      return { success: false, error: 'No message_id in response' };
+      const res = await this.sdk.im.v1.message.delete({ path: { message_id: messageId } });
+      return !res?.code;
     } catch (e) {
-      return { success: false, error: (e as Error).message };
+      console.error(`[LARK-MSG] Failed to delete message ${messageId}:`, (e as Error).message);
+      return false;
     }
   }
 
   // ─── Image Operations ──────────────────────────────────────────
 
   /**
-   * Download an image from a message
+   * Download an image from a message into destDir
    */
-  async downloadImage(imageKey: string, messageId: string): Promise<ImageAttachment | null> {
+  async downloadImage(imageKey: string, messageId: string, destDir: string): Promise<DownloadedMedia | null> {
     try {
-      const token = await this.getTenantToken();
-      if (!token) return null;
-
-      const domain = this.domain === 'feishu'
-        ? 'https://open.feishu.cn'
-        : 'https://open.larksuite.com';
-
-      const url = `${domain}/open-apis/im/v1/messages/${messageId}/resources/${imageKey}?type=image`;
-      const res = await fetch(url, {
-        headers: { 'Authorization': `Bearer ${token}` },
-      });
-
-      if (!res.ok) return null;
+      const res = await this.fetchMessageResource(messageId, imageKey, 'image');
+      if (!res) return null;
 
-      const buffer = Buffer.from(await res.arrayBuffer());
-      console.log(`[LARK-IMG] Downloaded ${Math.round(buffer.byteLength / 1024)}KB: ${imageKey}`);
+      const mimeType = res.headers.get('content-type')?.split(';')[0].trim() || 'image/png';
+      const saved = await saveResponseToFile(res, destDir, mediaFileName(mimeType, `image_${messageId}`));
+      console.log(`[LARK-IMG] Downloaded ${Math.round(saved.size / 1024)}KB: ${imageKey}`);
 
-      return {
-        content: buffer.toString('base64'),
-        mimeType: res.headers.get('content-type') ?? 'image/png',
-      };
+      return { ...saved, mimeType };
     } catch (e) {
       console.error('[LARK-IMG-ERROR]', (e as Error).message);
       return null;
@@ -333,17 +558,12 @@ export class LarkClient {
   }
 
   /**
-   * Upload image from URL
+   * Upload image from a URL, data: URL or a local path inside localRoots (see loadMedia)
    */
-  async uploadImageFromUrl(url: string): Promise<LarkImageUploadResult> {
+  async uploadImageFromUrl(url: string, localRoots: string[] = []): Promise<LarkImageUploadResult> {
     try {
-      const res = await fetch(url);
-      if (!res.ok) {
-        return { success: false, error: `Failed to fetch: ${res.status}` };
-      }
-
-      const buffer = Buffer.from(await res.arrayBuffer());
-      return this.uploadImage(buffer);
+      const media = await loadMedia(url, MAX_IMAGE_UPLOAD_BYTES, localRoots);
+      return this.uploadImage(media.buffer, media.fileName);
     } catch (e) {
       return { success: false, error: (e as Error).message };
     }
@@ -352,67 +572,88 @@ export class LarkClient {
   // ─── File Operations ─────────────────────────────────────────────
 
   /**
-   * Download a file attachment from a message (zip, pdf, doc, etc.)
-   * API: GET /im/v1/messages/{message_id}/resources/{file_key}?type=file
+   * Upload a file and get file_key. fileType defaults to the type detected
+   * from the file name; durationMs is shown on audio/video messages.
    */
-  async downloadFile(fileKey: string, messageId: string, fileName?: string): Promise<{
-    base64: string;
-    mimeType: string;
-    fileName: string;
-    sizeBytes: number;
-  } | null> {
-    try {
-      const token = await this.getTenantToken();
-      if (!token) return null;
-
-      const domain = this.domain === 'feishu'
-        ? 'https://open.feishu.cn'
-        : 'https://open.larksuite.com';
+  async uploadFile(
+    buffer: Buffer,
+    fileName: string,
+    fileType: LarkFileType = larkFileType(mimeTypeFor(fileName)),
+    durationMs?: number
+  ): Promise<LarkFileUploadResult> {
+    if (buffer.byteLength > MAX_FILE_UPLOAD_BYTES) {
+      return { success: false, error: `File too large: ${Math.round(buffer.byteLength / 1024 / 1024)}MB exceeds 30MB upload limit` };
+    }
 
-      const url = `${domain}/open-apis/im/v1/messages/${messageId}/resources/${fileKey}?type=file`;
-      const res = await fetch(url, {
-        headers: { 'Authorization': `Bearer ${token}` },
+    try {
+      const res = await this.sdk.im.v1.file.create({
+        data: {
+          file_type: fileType,
+          file_name: fileName,
+          duration: durationMs,
+          file: buffer,
+        },
       });
 
-      if (!res.ok) {
-        console.error(`[LARK-FILE] Download failed: HTTP ${res.status} for ${fileKey}`);
-        return null;
+      if (res?.file_key) {
+        console.log(`[LARK-FILE] Uploaded ${Math.round(buffer.byteLength / 1024)}KB as ${fileType}: ${fileName}`);
+        return { success: true, fileKey: res.file_key };
       }
 
-      const buffer = Buffer.from(await res.arrayBuffer());
-      const sizeKB = Math.round(buffer.byteLength / 1024);
-      console.log(`[LARK-FILE] Downloaded ${sizeKB}KB: ${fileName ?? fileKey}`);
+      return { success: false, error: 'No file_key in response' };
+    } catch (e) {
+      return { success: false, error: (e as Error).message };
+    }
+  }
+
+  /**
+   * Fetch a message resource (image or file) - null on HTTP errors
+   * API: GET /im/v1/messages/{message_id}/resources/{key}?type=...
+   */
+  private async fetchMessageResource(messageId: string, key: string, type: 'image' | 'file'): Promise<Response | null> {
+    const token = await this.getTenantToken();
+    if (!token) return null;
+
+    const domain = this.domain === 'feishu'
+      ? 'https://open.feishu.cn'
+      : 'https://open.larksuite.com';
+
+    const url = `${domain}/open-apis/im/v1/messages/${messageId}/resources/${key}?type=${type}`;
+    const res = await fetch(url, {
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+
+    if (!res.ok) {
+      console.error(`[LARK-RESOURCE] Download failed: HTTP ${res.status} for ${key}`);
+      await res.body?.cancel();
+      return null;
+    }
+    return res;
+  }
+
+  /**
+   * Download a file attachment from a message (zip, pdf, doc, etc.) into destDir
+   */
+  async downloadFile(fileKey: string, messageId: string, destDir: string, fileName?: string): Promise<(DownloadedMedia & {
+    fileName: string;
+  }) | null> {
+    try {
+      const res = await this.fetchMessageResource(messageId, fileKey, 'file');
+      if (!res) return null;
 
       // Determine content type from response or file extension
-      let mimeType = res.headers.get('content-type') ?? 'application/octet-stream';
-      if (fileName) {
-        const ext = fileName.split('.').pop()?.toLowerCase();
-        const extMap: Record<string, string> = {
-          'zip': 'application/zip',
-          'pdf': 'application/pdf',
-          'doc': 'application/msword',
-          'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-          'xls': 'application/vnd.ms-excel',
-          'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-          'ppt': 'application/vnd.ms-powerpoint',
-          'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-          'txt': 'text/plain',
-          'csv': 'text/csv',
-          'json': 'application/json',
-          'xml': 'application/xml',
-          'html': 'text/html',
-          'md': 'text/markdown',
-        };
-        if (ext && extMap[ext]) {
-          mimeType = extMap[ext];
-        }
+      let mimeType = res.headers.get('content-type')?.split(';')[0].trim() || 'application/octet-stream';
+      if (fileName && mimeTypeFor(fileName) !== 'application/octet-stream') {
+        mimeType = mimeTypeFor(fileName);
       }
 
+      const saved = await saveResponseToFile(res, destDir, mediaFileName(mimeType, fileName ?? fileKey));
+      console.log(`[LARK-FILE] Downloaded ${Math.round(saved.size / 1024)}KB: ${fileName ?? fileKey}`);
+
       return {
-        base64: buffer.toString('base64'),
+        ...saved,
         mimeType,
         fileName: fileName ?? fileKey,
-        sizeBytes: buffer.byteLength,
       };
     } catch (e) {
       console.error('[LARK-FILE-ERROR]', (e as Error).message);
@@ -421,43 +662,25 @@ export class LarkClient {
   }
 
   /**
-   * Download an audio message from Lark
+   * Download an audio message from Lark into destDir
    * Audio content format: { "file_key": "...", "duration": 1000 }
    */
-  async downloadAudio(fileKey: string, messageId: string, duration?: number): Promise<{
-    base64: string;
-    mimeType: string;
+  async downloadAudio(fileKey: string, messageId: string, destDir: string, duration?: number): Promise<(DownloadedMedia & {
     durationMs: number;
-    sizeBytes: number;
-  } | null> {
+  }) | null> {
     try {
-      const token = await this.getTenantToken();
-      if (!token) return null;
+      const res = await this.fetchMessageResource(messageId, fileKey, 'file');
+      if (!res) return null;
 
-      const domain = this.domain === 'feishu'
-        ? 'https://open.feishu.cn'
-        : 'https://open.larksuite.com';
-
-      const url = `${domain}/open-apis/im/v1/messages/${messageId}/resources/${fileKey}?type=file`;
-      const res = await fetch(url, {
-        headers: { 'Authorization': `Bearer ${token}` },
-      });
-
-      if (!res.ok) {
-        console.error(`[LARK-AUDIO] Download failed: HTTP ${res.status} for ${fileKey}`);
-        return null;
-      }
-
-      const buffer = Buffer.from(await res.arrayBuffer());
-      const sizeKB = Math.round(buffer.byteLength / 1024);
+      const mimeType = 'audio/ogg'; // Lark audio is typically opus in ogg container
+      const saved = await saveResponseToFile(res, destDir, mediaFileName(mimeType, `voice_${messageId}`));
       const durationSec = duration ? Math.round(duration / 1000) : 0;
-      console.log(`[LARK-AUDIO] Downloaded ${sizeKB}KB, ${durationSec}s: ${fileKey}`);
+      console.log(`[LARK-AUDIO] Downloaded ${Math.round(saved.size / 1024)}KB, ${durationSec}s: ${fileKey}`);
 
       return {
-        base64: buffer.toString('base64'),
-        mimeType: 'audio/ogg', // Lark audio is typically opus in ogg container
+        ...saved,
+        mimeType,
         durationMs: duration ?? 0,
-        sizeBytes: buffer.byteLength,
       };
     } catch (e) {
       console.error('[LARK-AUDIO-ERROR]', (e as Error).message);
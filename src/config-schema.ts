@@ -12,6 +12,9 @@ const LarkGroupConfigSchema = z.object({
   requireMention: z.boolean().optional().describe('Require @mention to respond in this group'),
   name: z.string().optional().describe('Friendly name for this group'),
   enabled: z.boolean().optional().describe('Enable bot in this group'),
+  replyMode: z.enum(['new', 'quote', 'thread']).optional().describe('How replies are posted in this group (overrides replyMode)'),
+  threadSessions: z.boolean().optional().describe('Give each thread in this group its own agent session (overrides threadSessions)'),
+  showReasoning: z.boolean().optional().describe('Show the agent reasoning panel in this group (overrides showReasoning)'),
 });
 
 // Account config schema (subset of main config, non-recursive)
@@ -21,7 +24,19 @@ const LarkAccountConfigSchema = z.object({
   appSecret: z.string().optional().describe('Lark application secret'),
   appSecretFile: z.string().optional().describe('Path to file containing the app secret'),
   encryptKey: z.string().optional().describe('Encryption key for webhook events'),
+  verificationToken: z.string().optional().describe('Verification token for webhook events'),
+  connectionMode: z.enum(['webhook', 'websocket']).optional().describe('How events are received from Lark'),
   webhookPort: z.number().optional().describe('Port for webhook HTTP server'),
+  inboundConcurrency: z.number().int().min(1).optional().describe('Chats dispatched to the agent concurrently'),
+  inboundCoalesceMs: z.number().int().min(0).optional().describe('Merge rapid-fire messages within this window (0 = off)'),
+  outboundWorkers: z.number().int().min(1).optional().describe('Chats delivered to concurrently'),
+  replyMode: z.enum(['new', 'quote', 'thread']).optional().describe('How replies are posted'),
+  threadSessions: z.boolean().optional().describe('Give each group thread its own agent session'),
+  blockStreaming: z.boolean().optional().describe('Stream replies into one card that is updated as the agent writes'),
+  showReasoning: z.boolean().optional().describe('Show the agent reasoning in a collapsible panel'),
+  mediaQuotaMb: z.number().int().min(0).optional().describe('Total size of stored inbound media (0 = unlimited)'),
+  mediaChatQuotaMb: z.number().int().min(0).optional().describe('Stored inbound media per chat (0 = unlimited)'),
+  mediaLocalRoots: z.array(z.string()).optional().describe('Directories replies may send local files from'),
   domain: z.enum(['lark', 'feishu']).optional().describe('Lark domain'),
   name: z.string().optional().describe('Display name for this account'),
 });
@@ -33,7 +48,13 @@ export const LarkConfigSchema = z.object({
   appId: z.string().optional().describe('Lark application ID'),
   appSecret: z.string().optional().describe('Lark application secret (prefer appSecretFile for security)'),
   appSecretFile: z.string().optional().describe('Path to file containing the app secret'),
-  encryptKey: z.string().optional().describe('Encryption key for webhook events'),
+  encryptKey: z.string().optional().describe('Encryption key for webhook events (also used to verify X-Lark-Signature)'),
+  verificationToken: z.string().optional().describe('Verification token; requests with a different token are rejected'),
+  signatureMaxSkewSec: z.number().optional().default(300)
+    .describe('Maximum allowed clock skew (seconds) for X-Lark-Request-Timestamp'),
+  
+  connectionMode: z.enum(['webhook', 'websocket']).optional().default('webhook')
+    .describe('How events are received: webhook (HTTP server) or websocket (Lark long connection, no inbound port needed)'),
   
   webhookPort: z.number().optional().default(3000).describe('Port for webhook HTTP server'),
   webhookBind: z.string().optional().default('127.0.0.1').describe('Bind address for webhook HTTP server (127.0.0.1 for localhost only, 0.0.0.0 for all interfaces)'),
@@ -55,9 +76,29 @@ export const LarkConfigSchema = z.object({
   
   groups: z.record(z.string(), LarkGroupConfigSchema).optional()
     .describe('Group-specific configuration'),
+  replyMode: z.enum(['new', 'quote', 'thread']).optional().default('new')
+    .describe('How replies are posted: new message in the chat, quoting the user message, or in its thread'),
+  threadSessions: z.boolean().optional().default(true)
+    .describe('Give each thread (and each topic in topic groups) its own agent session instead of sharing the group session'),
+  blockStreaming: z.boolean().optional().default(true)
+    .describe('Stream replies into one card that is updated as the agent writes (false = send each block when it is complete)'),
+  showReasoning: z.boolean().optional().default(true)
+    .describe('Show the agent reasoning (when the session streams it) in a collapsible "Thinking" panel of the reply card'),
   
   queueDbPath: z.string().optional()
     .describe('Path to SQLite queue database'),
+  inboundConcurrency: z.number().int().min(1).optional().default(4)
+    .describe('Chats dispatched to the agent concurrently (messages within one chat always run in order)'),
+  inboundCoalesceMs: z.number().int().min(0).optional().default(0)
+    .describe('Merge rapid-fire messages from the same chat and sender arriving within this window (0 = off)'),
+  outboundWorkers: z.number().int().min(1).optional().default(4)
+    .describe('Chats delivered to concurrently (messages within one chat are always sent in order)'),
+  mediaQuotaMb: z.number().int().min(0).optional().default(2048)
+    .describe('Total size of stored inbound media in MB; least recently used files are evicted first (0 = unlimited)'),
+  mediaChatQuotaMb: z.number().int().min(0).optional().default(512)
+    .describe('Stored inbound media per chat in MB (0 = unlimited)'),
+  mediaLocalRoots: z.array(z.string()).optional()
+    .describe('Directories replies may attach local files from, besides the media store (other paths are rejected)'),
   
   accounts: z.record(z.string(), LarkAccountConfigSchema).optional()
     .describe('Additional account configurations'),
@@ -0,0 +1,377 @@
+/**
+ * Media Store - content-addressed inbound attachments
+ *
+ * Every image/file received from Lark is stored once under its sha256
+ * (`<dir>/<ab>/<sha256><ext>`), so the same forward landing in ten chats takes
+ * the space of one. The index lives in the queue database:
+ * - media_files: one row per stored file (size, mime, last use)
+ * - media_refs: which (account, chat) pairs use a file, for per-chat quotas
+ *
+ * Eviction is LRU, bounded by a total-size quota, a per-chat quota and a TTL.
+ * A file referenced by a pending or processing inbound row is never deleted,
+ * whatever the quotas say - the agent has not seen it yet.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import type { Database as DatabaseType, Statement } from 'better-sqlite3';
+
+// ─── Config ──────────────────────────────────────────────────────
+
+export const DEFAULT_MEDIA_DIR = path.join(os.homedir(), '.openclaw', 'media', 'lark-inbound');
+const DEFAULT_MAX_TOTAL_BYTES = 2048 * 1024 * 1024; // 2 GB
+const DEFAULT_MAX_CHAT_BYTES = 512 * 1024 * 1024;   // 512 MB
+const DEFAULT_TTL_MS = 30 * 24 * 60 * 60 * 1000;    // 30 days (matches the queue's message TTL)
+const INCOMING_TTL_MS = 60 * 60 * 1000;             // Partial downloads left by a crash
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'application/zip': '.zip',
+  'application/pdf': '.pdf',
+  'application/msword': '.doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.ms-excel': '.xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'application/vnd.ms-powerpoint': '.ppt',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': '.pptx',
+  'text/plain': '.txt',
+  'text/csv': '.csv',
+  'text/markdown': '.md',
+  'application/json': '.json',
+  'application/xml': '.xml',
+  'text/html': '.html',
+  'audio/ogg': '.ogg',
+  'audio/opus': '.opus',
+  'audio/mpeg': '.mp3',
+  'audio/wav': '.wav',
+  'video/mp4': '.mp4',
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+};
+
+/**
+ * File extension for a mime type, else the extension of the original file name
+ */
+export function extensionFor(mimeType: string, fileName?: string): string {
+  const ext = MIME_EXTENSIONS[mimeType.toLowerCase()];
+  if (ext) return ext;
+  const match = fileName?.match(/\.[a-zA-Z0-9]{1,10}$/);
+  return match ? match[0].toLowerCase() : '.bin';
+}
+
+/**
+ * Mime type for a file name, from its extension (application/octet-stream if unknown)
+ */
+export function mimeTypeFor(fileName: string): string {
+  const ext = path.extname(fileName).toLowerCase();
+  if (ext === '.jpeg') return 'image/jpeg';
+  const match = Object.entries(MIME_EXTENSIONS).find(([, e]) => e === ext);
+  return match ? match[0] : 'application/octet-stream';
+}
+
+/**
+ * Absolute path for a local media reference (`file://` URL, `~/` or relative path);
+ * http(s) and data: URLs are returned unchanged
+ */
+export function resolveMediaPath(url: string): string {
+  if (/^(https?|data):/i.test(url)) return url;
+  const filePath = url.startsWith('file://') ? fileURLToPath(url) : url;
+  return path.resolve(filePath.startsWith('~/') ? path.join(os.homedir(), filePath.slice(2)) : filePath);
+}
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export interface MediaStoreOptions {
+  dir?: string;
+  maxTotalBytes?: number;   // 0 = unlimited
+  maxChatBytes?: number;    // 0 = unlimited
+  ttlMs?: number;
+}
+
+export interface StoredMedia {
+  path: string;
+  sha256: string;
+  size: number;
+  mimeType: string;
+}
+
+interface MediaFileRow {
+  sha256: string;
+  path: string;
+  size: number;
+}
+
+// ─── Media Store ─────────────────────────────────────────────────
+
+export class MediaStore {
+  readonly dir: string;
+  /** Downloads land here first, then adopt() moves them into place */
+  readonly incomingDir: string;
+  private db: DatabaseType;
+  private accountId: string;
+  private maxTotalBytes: number;
+  private maxChatBytes: number;
+  private ttlMs: number;
+
+  private stmtGetFile: Statement<unknown[]>;
+  private stmtUpsertFile: Statement<unknown[]>;
+  private stmtUpsertRef: Statement<unknown[]>;
+  private stmtTouchFile: Statement<unknown[]>;
+  private stmtTouchRef: Statement<unknown[]>;
+  private stmtDeleteFile: Statement<unknown[]>;
+  private stmtDeleteRefs: Statement<unknown[]>;
+  private stmtDeleteRef: Statement<unknown[]>;
+  private stmtCountRefs: Statement<unknown[]>;
+  private stmtIsPinned: Statement<unknown[]>;
+  private stmtTotalBytes: Statement<unknown[]>;
+
+  constructor(db: DatabaseType, accountId: string, options: MediaStoreOptions = {}) {
+    this.db = db;
+    this.accountId = accountId;
+    this.dir = options.dir ?? DEFAULT_MEDIA_DIR;
+    this.incomingDir = path.join(this.dir, '.incoming');
+    this.maxTotalBytes = options.maxTotalBytes ?? DEFAULT_MAX_TOTAL_BYTES;
+    this.maxChatBytes = options.maxChatBytes ?? DEFAULT_MAX_CHAT_BYTES;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+
+    this.stmtGetFile = db.prepare('SELECT sha256, path, size FROM media_files WHERE sha256 = ?');
+    this.stmtUpsertFile = db.prepare(`
+      INSERT INTO media_files (sha256, path, size, mime_type, created_at, last_used_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(sha256) DO UPDATE SET path = excluded.path, last_used_at = excluded.last_used_at
+    `);
+    this.stmtUpsertRef = db.prepare(`
+      INSERT INTO media_refs (sha256, account_id, chat_id, last_used_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(sha256, account_id, chat_id) DO UPDATE SET last_used_at = excluded.last_used_at
+    `);
+    this.stmtTouchFile = db.prepare('UPDATE media_files SET last_used_at = ? WHERE sha256 = ?');
+    this.stmtTouchRef = db.prepare('UPDATE media_refs SET last_used_at = ? WHERE sha256 = ? AND account_id = ? AND chat_id = ?');
+    this.stmtDeleteFile = db.prepare('DELETE FROM media_files WHERE sha256 = ?');
+    this.stmtDeleteRefs = db.prepare('DELETE FROM media_refs WHERE sha256 = ?');
+    this.stmtDeleteRef = db.prepare('DELETE FROM media_refs WHERE sha256 = ? AND account_id = ? AND chat_id = ?');
+    this.stmtCountRefs = db.prepare('SELECT COUNT(*) FROM media_refs WHERE sha256 = ?').pluck();
+    this.stmtTotalBytes = db.prepare('SELECT COALESCE(SUM(size), 0) FROM media_files').pluck();
+
+    // Pinned = still needed by an undispatched inbound message, or an unsent outbound
+    // image/file, of any account. Rows written before content addressing only carry a path.
+    this.stmtIsPinned = db.prepare(`
+      SELECT 1 FROM inbound_queue i, json_each(i.attachments_json) a
+      WHERE i.status IN ('pending', 'processing')
+        AND i.attachments_json IS NOT NULL AND json_valid(i.attachments_json)
+        AND (json_extract(a.value, '$.sha256') = @sha256 OR json_extract(a.value, '$.path') = @path)
+      UNION ALL
+      SELECT 1 FROM outbound_queue o
+      WHERE o.status IN ('pending', 'processing') AND o.upload_key IS NULL
+        AND o.media_json IS NOT NULL AND json_valid(o.media_json)
+        AND json_extract(o.media_json, '$.url') = @path
+      LIMIT 1
+    `).pluck();
+  }
+
+  // ─── Storing ─────────────────────────────────────────────────────
+
+  /**
+   * Move a downloaded file (already hashed) into the store. If the content is
+   * stored already, the download is discarded and the existing file reused.
+   */
+  adopt(file: { path: string; sha256: string; size: number; mimeType: string }, chatId: string, fileName?: string): StoredMedia {
+    const existing = this.existingFile(file.sha256);
+    let finalPath: string;
+    if (existing) {
+      fs.rmSync(file.path, { force: true });
+      finalPath = existing.path;
+    } else {
+      finalPath = this.contentPath(file.sha256, file.mimeType, fileName);
+      fs.mkdirSync(path.dirname(finalPath), { recursive: true, mode: 0o700 });
+      fs.renameSync(file.path, finalPath);
+    }
+
+    this.index(file.sha256, finalPath, file.size, file.mimeType, chatId);
+    if (existing) {
+      console.log(`[MEDIA] ♻️ Reused ${file.sha256.slice(0, 12)} for ${chatId} (${Math.round(file.size / 1024)}KB)`);
+    }
+    return { path: finalPath, sha256: file.sha256, size: file.size, mimeType: file.mimeType };
+  }
+
+  /**
+   * Store an in-memory buffer (legacy base64 attachments)
+   */
+  putBuffer(buffer: Buffer, mimeType: string, chatId: string, fileName?: string): StoredMedia {
+    const sha256 = crypto.createHash('sha256').update(buffer).digest('hex');
+    const existing = this.existingFile(sha256);
+    const finalPath = existing?.path ?? this.contentPath(sha256, mimeType, fileName);
+
+    if (!existing) {
+      fs.mkdirSync(path.dirname(finalPath), { recursive: true, mode: 0o700 });
+      const tempPath = `${finalPath}.${crypto.randomUUID().slice(0, 8)}.part`;
+      fs.writeFileSync(tempPath, buffer, { mode: 0o600 });
+      fs.renameSync(tempPath, finalPath);
+    }
+
+    this.index(sha256, finalPath, buffer.byteLength, mimeType, chatId);
+    return { path: finalPath, sha256, size: buffer.byteLength, mimeType };
+  }
+
+  /**
+   * Mark a file as used now (LRU), e.g. when the agent is handed its bytes
+   */
+  touch(sha256: string, chatId?: string): void {
+    const now = Date.now();
+    this.stmtTouchFile.run(now, sha256);
+    if (chatId) {
+      this.stmtTouchRef.run(now, sha256, this.accountId, chatId);
+    }
+  }
+
+  private existingFile(sha256: string): MediaFileRow | undefined {
+    const row = this.stmtGetFile.get(sha256) as MediaFileRow | undefined;
+    // Index rows whose file vanished are rewritten by the caller
+    return row && fs.existsSync(row.path) ? row : undefined;
+  }
+
+  private contentPath(sha256: string, mimeType: string, fileName?: string): string {
+    return path.join(this.dir, sha256.slice(0, 2), `${sha256}${extensionFor(mimeType, fileName)}`);
+  }
+
+  private index(sha256: string, filePath: string, size: number, mimeType: string, chatId: string): void {
+    const now = Date.now();
+    this.db.transaction(() => {
+      this.stmtUpsertFile.run(sha256, filePath, size, mimeType, now, now);
+      this.stmtUpsertRef.run(sha256, this.accountId, chatId, now);
+    })();
+  }
+
+  // ─── Eviction ────────────────────────────────────────────────────
+
+  /**
+   * Enforce TTL, per-chat and total quotas, least recently used first.
+   * Files referenced by pending/processing inbound rows are skipped.
+   */
+  evict(now: number = Date.now()): { deleted: number; freedBytes: number } {
+    let deleted = 0;
+    let freedBytes = 0;
+    const remove = (file: MediaFileRow): void => {
+      this.deleteFile(file);
+      deleted++;
+      freedBytes += file.size;
+    };
+
+    // 1. Expired files
+    const expired = this.db.prepare(
+      'SELECT sha256, path, size FROM media_files WHERE last_used_at < ? ORDER BY last_used_at ASC'
+    ).all(now - this.ttlMs) as MediaFileRow[];
+    for (const file of expired) {
+      if (!this.isPinned(file)) remove(file);
+    }
+
+    // 2. Per-chat quota: drop the chat's least recently used references; a file is
+    //    deleted once no chat references it any more
+    if (this.maxChatBytes > 0) {
+      const overQuota = this.db.prepare(`
+        SELECT r.chat_id, SUM(f.size) AS used FROM media_refs r JOIN media_files f ON f.sha256 = r.sha256
+        WHERE r.account_id = ? GROUP BY r.chat_id HAVING used > ?
+      `).all(this.accountId, this.maxChatBytes) as Array<{ chat_id: string; used: number }>;
+
+      for (const chat of overQuota) {
+        let used = chat.used;
+        const refs = this.db.prepare(`
+          SELECT f.sha256, f.path, f.size FROM media_refs r JOIN media_files f ON f.sha256 = r.sha256
+          WHERE r.account_id = ? AND r.chat_id = ? ORDER BY r.last_used_at ASC
+        `).all(this.accountId, chat.chat_id) as MediaFileRow[];
+
+        for (const file of refs) {
+          if (used <= this.maxChatBytes) break;
+          if (this.isPinned(file)) continue;
+          this.stmtDeleteRef.run(file.sha256, this.accountId, chat.chat_id);
+          used -= file.size;
+          if ((this.stmtCountRefs.get(file.sha256) as number) === 0) {
+            remove(file);
+          }
+        }
+      }
+    }
+
+    // 3. Total quota
+    if (this.maxTotalBytes > 0) {
+      let total = this.stmtTotalBytes.get() as number;
+      if (total > this.maxTotalBytes) {
+        const files = this.db.prepare(
+          'SELECT sha256, path, size FROM media_files ORDER BY last_used_at ASC'
+        ).all() as MediaFileRow[];
+        for (const file of files) {
+          if (total <= this.maxTotalBytes) break;
+          if (this.isPinned(file)) continue;
+          remove(file);
+          total -= file.size;
+        }
+      }
+    }
+
+    // 4. Files from before content addressing (flat layout, not indexed) and
+    //    downloads abandoned mid-way
+    for (const [dir, cutoff] of [[this.dir, now - this.ttlMs], [this.incomingDir, now - INCOMING_TTL_MS]] as const) {
+      const swept = this.sweepUnindexedFiles(dir, cutoff);
+      deleted += swept.deleted;
+      freedBytes += swept.freedBytes;
+    }
+
+    if (deleted > 0) {
+      console.log(`[MEDIA] Evicted ${deleted} file(s), freed ${Math.round(freedBytes / 1024 / 1024)}MB from ${this.dir}`);
+    }
+    return { deleted, freedBytes };
+  }
+
+  /**
+   * Bytes and files currently indexed
+   */
+  getUsage(): { totalBytes: number; files: number } {
+    const row = this.db.prepare('SELECT COALESCE(SUM(size), 0) AS totalBytes, COUNT(*) AS files FROM media_files').get() as
+      { totalBytes: number; files: number };
+    return row;
+  }
+
+  private isPinned(file: MediaFileRow): boolean {
+    return this.stmtIsPinned.get({ sha256: file.sha256, path: file.path }) !== undefined;
+  }
+
+  private deleteFile(file: MediaFileRow): void {
+    try {
+      fs.rmSync(file.path, { force: true });
+    } catch (e) {
+      console.warn(`[MEDIA] Failed to delete ${file.path}: ${(e as Error).message}`);
+      return;
+    }
+    this.db.transaction(() => {
+      this.stmtDeleteRefs.run(file.sha256);
+      this.stmtDeleteFile.run(file.sha256);
+    })();
+  }
+
+  private sweepUnindexedFiles(dir: string, cutoffMs: number): { deleted: number; freedBytes: number } {
+    let deleted = 0;
+    let freedBytes = 0;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return { deleted, freedBytes };
+    }
+
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const filePath = path.join(dir, entry.name);
+      try {
+        const stat = fs.statSync(filePath);
+        if (stat.mtimeMs >= cutoffMs || this.stmtIsPinned.get({ sha256: '', path: filePath }) !== undefined) continue;
+        fs.unlinkSync(filePath);
+        deleted++;
+        freedBytes += stat.size;
+      } catch { /* skip */ }
+    }
+    return { deleted, freedBytes };
+  }
+}
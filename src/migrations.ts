@@ -0,0 +1,515 @@
+/**
+ * Queue Schema Migrations
+ *
+ * The queue database records its schema version in `PRAGMA user_version`.
+ * On open, every migration newer than that version runs in order, each in its
+ * own transaction together with the version bump - a failed step rolls back
+ * and leaves the database at the previous version.
+ *
+ * Before upgrading an existing database a copy is written next to it
+ * (`<db>.v<from>.bak`), so a bad migration never costs queued messages.
+ *
+ * Databases created before versioning report user_version 0 but already hold
+ * the v1 tables; every step is written to be a no-op for the parts that exist.
+ *
+ * To change the schema, append a migration - never edit a released one.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import type { Database as DatabaseType } from 'better-sqlite3';
+
+// Where inbound attachments live (same directory the webhook handler writes to)
+const DEFAULT_MEDIA_DIR = path.join(os.homedir(), '.openclaw', 'media', 'lark-inbound');
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export interface MigrationContext {
+  mediaDir: string;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: DatabaseType, ctx: MigrationContext) => void;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────
+
+function hasTable(db: DatabaseType, table: string): boolean {
+  return db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) !== undefined;
+}
+
+function hasColumn(db: DatabaseType, table: string, column: string): boolean {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>)
+    .some((col) => col.name === column);
+}
+
+function addColumn(db: DatabaseType, table: string, column: string, definition: string): boolean {
+  if (hasColumn(db, table, column)) {
+    return false;
+  }
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
+function sha256(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+};
+
+/**
+ * Move base64 attachment content out of inbound_queue into files under mediaDir,
+ * leaving a reference (path, sha256, size, mime) in attachments_json
+ */
+function externalizeAttachments(db: DatabaseType, mediaDir: string): void {
+  const ids = db.prepare(`SELECT id FROM inbound_queue WHERE attachments_json LIKE '%"content"%'`)
+    .pluck().all() as number[];
+  if (ids.length === 0) {
+    return;
+  }
+
+  const stmtGet = db.prepare('SELECT message_id, attachments_json FROM inbound_queue WHERE id = ?');
+  const stmtUpdate = db.prepare('UPDATE inbound_queue SET attachments_json = ? WHERE id = ?');
+  fs.mkdirSync(mediaDir, { recursive: true, mode: 0o700 });
+
+  let moved = 0;
+  for (const id of ids) {
+    const row = stmtGet.get(id) as { message_id: string; attachments_json: string };
+    let attachments: unknown;
+    try {
+      attachments = JSON.parse(row.attachments_json);
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(attachments)) {
+      continue;
+    }
+
+    const refs = attachments.map((att: Record<string, unknown>, idx: number) => {
+      if (!att || typeof att.content !== 'string') {
+        return att;
+      }
+      const { content, ...ref } = att;
+      const buffer = Buffer.from((content as string).replace(/^data:[^;]+;base64,/, ''), 'base64');
+      const digest = sha256(buffer);
+      const mimeType = String(ref.mimeType ?? 'application/octet-stream').toLowerCase();
+
+      // Keep the copy the webhook already saved if it still holds the same bytes
+      let filePath = typeof ref.path === 'string' ? ref.path : '';
+      if (!filePath || !fs.existsSync(filePath) || sha256(fs.readFileSync(filePath)) !== digest) {
+        const safeId = row.message_id.replace(/[^a-zA-Z0-9_-]/g, '_');
+        filePath = path.join(mediaDir, `migrated_${safeId}_${idx}${IMAGE_EXTENSIONS[mimeType] ?? '.bin'}`);
+        fs.writeFileSync(filePath, buffer, { mode: 0o600 });
+      }
+      moved++;
+
+      return {
+        ...ref,
+        type: ref.type ?? (mimeType.startsWith('image/') ? 'image' : 'file'),
+        path: filePath,
+        sha256: digest,
+        size: buffer.byteLength,
+        mimeType,
+      };
+    });
+
+    stmtUpdate.run(JSON.stringify(refs), id);
+  }
+
+  console.log(`[QUEUE] Externalized ${moved} base64 attachment(s) to ${mediaDir}`);
+}
+
+/**
+ * Add attachment files that live in mediaDir but were never indexed (written by the
+ * v9 externalization, which ran before the media tables existed) to media_files and
+ * media_refs, so they count toward the quotas and take part in LRU eviction
+ */
+function indexExternalizedAttachments(db: DatabaseType, mediaDir: string): void {
+  const rows = db.prepare(`
+    SELECT i.account_id, i.chat_id, i.updated_at,
+           json_extract(a.value, '$.sha256') AS sha256,
+           json_extract(a.value, '$.path') AS path,
+           json_extract(a.value, '$.mimeType') AS mime_type
+    FROM inbound_queue i, json_each(i.attachments_json) a
+    WHERE i.attachments_json IS NOT NULL AND json_valid(i.attachments_json)
+      AND json_extract(a.value, '$.sha256') IS NOT NULL AND json_extract(a.value, '$.path') IS NOT NULL
+  `).all() as Array<{ account_id: string; chat_id: string; updated_at: number; sha256: string; path: string; mime_type: string | null }>;
+  if (rows.length === 0) {
+    return;
+  }
+
+  const root = path.resolve(mediaDir);
+  const stmtFile = db.prepare(`
+    INSERT INTO media_files (sha256, path, size, mime_type, created_at, last_used_at) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(sha256) DO UPDATE SET last_used_at = MAX(last_used_at, excluded.last_used_at)
+  `);
+  const stmtRef = db.prepare(`
+    INSERT INTO media_refs (sha256, account_id, chat_id, last_used_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT(sha256, account_id, chat_id) DO UPDATE SET last_used_at = MAX(last_used_at, excluded.last_used_at)
+  `);
+
+  let indexed = 0;
+  for (const row of rows) {
+    // Only files the store owns - never evict a path outside the media directory
+    const relative = path.relative(root, path.resolve(row.path));
+    if (!relative || relative.split(path.sep)[0] === '..' || path.isAbsolute(relative)) {
+      continue;
+    }
+    let size: number;
+    try {
+      size = fs.statSync(row.path).size;
+    } catch {
+      continue;
+    }
+    stmtFile.run(row.sha256, row.path, size, row.mime_type, row.updated_at, row.updated_at);
+    stmtRef.run(row.sha256, row.account_id, row.chat_id, row.updated_at);
+    indexed++;
+  }
+
+  if (indexed > 0) {
+    console.log(`[QUEUE] Indexed ${indexed} externalized attachment(s) in ${mediaDir}`);
+  }
+}
+
+// ─── Migrations ──────────────────────────────────────────────────
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'initial queue tables',
+    up: (db) => {
+      db.exec(`
+        -- Outbound queue: messages TO Lark (replies + mirrors)
+        CREATE TABLE IF NOT EXISTS outbound_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          queue_type TEXT NOT NULL,        -- 'reply' or 'mirror'
+          run_id TEXT,
+          session_key TEXT NOT NULL,
+          chat_id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          content_hash TEXT NOT NULL,
+          status TEXT DEFAULT 'pending',   -- pending, processing, completed, failed_permanent
+          retries INTEGER DEFAULT 0,
+          next_retry_at INTEGER,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          completed_at INTEGER,
+          lark_message_id TEXT,
+          last_error TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_outbound_status ON outbound_queue(status, next_retry_at);
+        CREATE INDEX IF NOT EXISTS idx_outbound_hash ON outbound_queue(content_hash, chat_id, created_at);
+
+        -- Inbound queue: messages FROM Lark (to Gateway)
+        CREATE TABLE IF NOT EXISTS inbound_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          message_id TEXT NOT NULL UNIQUE,  -- Lark message_id for dedup
+          chat_id TEXT NOT NULL,
+          session_key TEXT NOT NULL,
+          message_text TEXT NOT NULL,
+          attachments_json TEXT,            -- JSON array of attachments
+          status TEXT DEFAULT 'pending',
+          retries INTEGER DEFAULT 0,
+          next_retry_at INTEGER,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          completed_at INTEGER,
+          response_text TEXT,
+          last_error TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_inbound_status ON inbound_queue(status, next_retry_at);
+        CREATE INDEX IF NOT EXISTS idx_inbound_msgid ON inbound_queue(message_id);
+
+        -- Sent message tracking (for dedup)
+        CREATE TABLE IF NOT EXISTS sent_messages (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          content_hash TEXT NOT NULL,
+          chat_id TEXT NOT NULL,
+          lark_message_id TEXT,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sent_hash ON sent_messages(content_hash, chat_id, created_at);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'processed_events for event-level dedup',
+    up: (db) => {
+      db.exec(`
+        -- Processed Lark events (dedup of redeliveries by header.event_id)
+        CREATE TABLE IF NOT EXISTS processed_events (
+          event_id TEXT PRIMARY KEY,
+          event_type TEXT,
+          processed_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_processed_events_at ON processed_events(processed_at);
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: 'account_id on every queue row',
+    up: (db) => {
+      addColumn(db, 'outbound_queue', 'account_id', "TEXT NOT NULL DEFAULT 'default'");
+      addColumn(db, 'sent_messages', 'account_id', "TEXT NOT NULL DEFAULT 'default'");
+
+      // inbound_queue had a column-level UNIQUE(message_id), which would drop the same
+      // group message received by a second bot - rebuild the table without it
+      if (!hasColumn(db, 'inbound_queue', 'account_id')) {
+        db.exec(`
+          ALTER TABLE inbound_queue RENAME TO inbound_queue_legacy;
+          DROP INDEX IF EXISTS idx_inbound_status;
+          DROP INDEX IF EXISTS idx_inbound_msgid;
+
+          CREATE TABLE inbound_queue (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            account_id TEXT NOT NULL DEFAULT 'default',
+            message_id TEXT NOT NULL,         -- Lark message_id for dedup (unique per account)
+            chat_id TEXT NOT NULL,
+            session_key TEXT NOT NULL,
+            message_text TEXT NOT NULL,
+            attachments_json TEXT,            -- JSON array of attachments
+            status TEXT DEFAULT 'pending',
+            retries INTEGER DEFAULT 0,
+            next_retry_at INTEGER,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL,
+            completed_at INTEGER,
+            response_text TEXT,
+            last_error TEXT
+          );
+
+          INSERT INTO inbound_queue
+            (id, account_id, message_id, chat_id, session_key, message_text, attachments_json, status,
+             retries, next_retry_at, created_at, updated_at, completed_at, response_text, last_error)
+          SELECT id, 'default', message_id, chat_id, session_key, message_text, attachments_json, status,
+             retries, next_retry_at, created_at, updated_at, completed_at, response_text, last_error
+          FROM inbound_queue_legacy;
+
+          DROP TABLE inbound_queue_legacy;
+        `);
+      }
+
+      db.exec(`
+        DROP INDEX IF EXISTS idx_outbound_status;
+        DROP INDEX IF EXISTS idx_sent_hash;
+        CREATE INDEX IF NOT EXISTS idx_outbound_account_status ON outbound_queue(account_id, status, next_retry_at);
+        CREATE INDEX IF NOT EXISTS idx_outbound_account_chat ON outbound_queue(account_id, chat_id, status, id);
+        CREATE INDEX IF NOT EXISTS idx_sent_account_hash ON sent_messages(account_id, content_hash, chat_id, created_at);
+        CREATE INDEX IF NOT EXISTS idx_inbound_account_status ON inbound_queue(account_id, status, next_retry_at);
+        CREATE INDEX IF NOT EXISTS idx_inbound_account_chat ON inbound_queue(account_id, chat_id, status, id);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_inbound_account_msgid ON inbound_queue(account_id, message_id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'processing leases',
+    up: (db) => {
+      for (const table of ['inbound_queue', 'outbound_queue']) {
+        addColumn(db, table, 'lease_owner', 'TEXT');
+        addColumn(db, table, 'lease_expires_at', 'INTEGER');
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'inbound_deliveries for partial-reply tracking',
+    up: (db) => {
+      db.exec(`
+        -- Reply blocks already delivered for an inbound message (suppressed when it is retried)
+        CREATE TABLE IF NOT EXISTS inbound_deliveries (
+          inbound_id INTEGER NOT NULL,
+          block_index INTEGER NOT NULL,
+          content_hash TEXT NOT NULL,
+          outbound_id INTEGER,
+          delivered_at INTEGER NOT NULL,
+          PRIMARY KEY (inbound_id, block_index)
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'lark_uuid idempotency key for message create',
+    up: (db) => {
+      if (addColumn(db, 'outbound_queue', 'lark_uuid', 'TEXT')) {
+        // Give undelivered rows a key too, so their remaining retries are idempotent
+        db.exec(`
+          UPDATE outbound_queue SET lark_uuid = lower(hex(randomblob(16)))
+          WHERE lark_uuid IS NULL AND status IN ('pending', 'processing')
+        `);
+      }
+    },
+  },
+  {
+    version: 7,
+    description: 'caller-supplied outbound idempotency keys',
+    up: (db) => {
+      addColumn(db, 'outbound_queue', 'idempotency_key', 'TEXT');
+      db.exec(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_outbound_account_key ON outbound_queue(account_id, idempotency_key)
+          WHERE idempotency_key IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'inbound message metadata (chat type, sender, thread, mentions)',
+    up: (db) => {
+      addColumn(db, 'inbound_queue', 'chat_type', 'TEXT');            // 'p2p' or 'group'
+      addColumn(db, 'inbound_queue', 'sender_open_id', 'TEXT');
+      addColumn(db, 'inbound_queue', 'sender_union_id', 'TEXT');
+      addColumn(db, 'inbound_queue', 'sender_user_id', 'TEXT');
+      addColumn(db, 'inbound_queue', 'sender_type', 'TEXT');          // 'user', 'app', ...
+      addColumn(db, 'inbound_queue', 'root_id', 'TEXT');
+      addColumn(db, 'inbound_queue', 'parent_id', 'TEXT');
+      addColumn(db, 'inbound_queue', 'thread_id', 'TEXT');
+      addColumn(db, 'inbound_queue', 'mentions_json', 'TEXT');        // JSON array of LarkMention
+      addColumn(db, 'inbound_queue', 'lark_create_time', 'INTEGER');  // message.create_time (ms)
+    },
+  },
+  {
+    version: 9,
+    description: 'attachments stored by reference instead of base64',
+    up: (db, ctx) => externalizeAttachments(db, ctx.mediaDir),
+  },
+  {
+    version: 10,
+    description: 'content-addressed media index',
+    up: (db) => {
+      db.exec(`
+        -- Files in the media store, keyed by content hash
+        CREATE TABLE IF NOT EXISTS media_files (
+          sha256 TEXT PRIMARY KEY,
+          path TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          mime_type TEXT,
+          created_at INTEGER NOT NULL,
+          last_used_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_media_files_used ON media_files(last_used_at);
+
+        -- Chats that use a stored file (per-chat quotas)
+        CREATE TABLE IF NOT EXISTS media_refs (
+          sha256 TEXT NOT NULL,
+          account_id TEXT NOT NULL,
+          chat_id TEXT NOT NULL,
+          last_used_at INTEGER NOT NULL,
+          PRIMARY KEY (sha256, account_id, chat_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_media_refs_chat ON media_refs(account_id, chat_id, last_used_at);
+      `);
+    },
+  },
+  {
+    version: 11,
+    description: 'typed outbound payloads (text, card, image, file)',
+    up: (db) => {
+      addColumn(db, 'outbound_queue', 'payload_type', "TEXT NOT NULL DEFAULT 'text'");
+      addColumn(db, 'outbound_queue', 'media_json', 'TEXT');   // OutboundMediaRef for image/file rows
+      addColumn(db, 'outbound_queue', 'upload_key', 'TEXT');   // image_key/file_key once uploaded
+      addColumn(db, 'outbound_queue', 'upload_type', 'TEXT');  // Lark msg_type the key is sent as
+    },
+  },
+  {
+    version: 12,
+    description: 'outbound replies to a message or thread',
+    up: (db) => {
+      addColumn(db, 'outbound_queue', 'reply_to_message_id', 'TEXT');
+      addColumn(db, 'outbound_queue', 'reply_in_thread', 'INTEGER NOT NULL DEFAULT 0');
+    },
+  },
+  {
+    version: 13,
+    description: 'quoted (parent) message context for inbound replies',
+    up: (db) => {
+      addColumn(db, 'inbound_queue', 'reply_to_body', 'TEXT');
+      addColumn(db, 'inbound_queue', 'reply_to_sender', 'TEXT');
+    },
+  },
+  {
+    version: 14,
+    description: 'media index entries for attachments externalized by v9',
+    up: (db, ctx) => indexExternalizedAttachments(db, ctx.mediaDir),
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// ─── Runner ──────────────────────────────────────────────────────
+
+/**
+ * Upgrade the database to the latest schema version.
+ *
+ * Returns the version the database was at before running. Databases written by a
+ * newer release (user_version above SCHEMA_VERSION) are left untouched.
+ */
+export function runMigrations(
+  db: DatabaseType,
+  dbPath: string,
+  options: { mediaDir?: string; migrations?: Migration[] } = {}
+): number {
+  const migrations = options.migrations ?? MIGRATIONS;
+  const ctx: MigrationContext = { mediaDir: options.mediaDir ?? DEFAULT_MEDIA_DIR };
+  const from = db.pragma('user_version', { simple: true }) as number;
+  const latest = migrations[migrations.length - 1]?.version ?? 0;
+
+  if (from > latest) {
+    console.warn(`[QUEUE] ⚠️ Database schema v${from} is newer than this release (v${latest}) - not migrating`);
+    return from;
+  }
+
+  const pending = migrations.filter((m) => m.version > from);
+  if (pending.length === 0) {
+    return from;
+  }
+
+  // Pre-versioning databases report 0 but may still hold queued messages
+  const isExisting = from > 0 || hasTable(db, 'inbound_queue') || hasTable(db, 'outbound_queue');
+  if (isExisting) {
+    backupDatabase(db, `${dbPath}.v${from}.bak`);
+  }
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db, ctx);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+    if (isExisting) {
+      console.log(`[QUEUE] Migrated schema to v${migration.version}: ${migration.description}`);
+    }
+  }
+
+  return from;
+}
+
+/**
+ * Write a consistent copy of the database (including WAL contents) to `backupPath`.
+ */
+function backupDatabase(db: DatabaseType, backupPath: string): void {
+  try {
+    fs.rmSync(backupPath, { force: true });
+    db.exec(`VACUUM INTO '${backupPath.replace(/'/g, "''")}'`);
+    console.log(`[QUEUE] 💾 Backed up queue database to ${backupPath}`);
+  } catch (err) {
+    // Never migrate without a backup
+    throw new Error(`Queue database backup to ${backupPath} failed: ${(err as Error).message}`);
+  }
+}
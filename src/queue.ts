@@ -12,6 +12,17 @@
  * - Lark API failures
  * 
  * UNLIMITED retries with exponential backoff (capped at 5 minutes)
+ *
+ * Every row carries an account_id: accounts may share one database file but
+ * only ever see (dequeue, reset, dedup against) their own rows.
+ *
+ * Rows being processed hold a lease (lease_owner/lease_expires_at) that the
+ * owner renews while the dispatch or send is in flight. Only expired leases are
+ * reclaimed, so long healthy runs are never re-dispatched and several processes
+ * can safely share one database.
+ *
+ * The schema is versioned (PRAGMA user_version) and upgraded in place on open,
+ * see migrations.ts.
  */
 
 import Database from 'better-sqlite3';
@@ -19,13 +30,21 @@ import type { Database as DatabaseType, Statement } from 'better-sqlite3';
 import fs from 'node:fs';
 import path from 'node:path';
 import crypto from 'node:crypto';
+import os from 'node:os';
 import type {
   InboundMessage,
   OutboundMessage,
   QueueStats,
   EnqueueResult,
   Attachment,
+  InboundMetadata,
+  OutboundPayloadType,
+  OutboundMediaRef,
+  OutboundUploadType,
 } from './types.js';
+import { runMigrations } from './migrations.js';
+import { MediaStore, resolveMediaPath } from './media-store.js';
+import type { MediaStoreOptions } from './media-store.js';
 
 // ─── Config ──────────────────────────────────────────────────────
 
@@ -37,33 +56,56 @@ const RETRY_BACKOFF_BASE_MS = 1000;
 const RETRY_BACKOFF_MAX_MS = 120 * 60 * 1000; // Cap at 120 minutes (2 hours)
 const MESSAGE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days (keep longer for audit)
 const DEDUP_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
+const EVENT_DEDUP_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours (covers Lark's redelivery schedule)
+const LEASE_TTL_MS = 60 * 1000; // Reclaimable this long after the owner's last heartbeat
+const LEASE_HEARTBEAT_MS = 20 * 1000;
 
 // ─── Statement Types ─────────────────────────────────────────────
 
 type AnyStatement = Statement<unknown[]>;
 
+const DEFAULT_ID = 'default';
+
 // ─── Queue Class ─────────────────────────────────────────────────
 
 export class MessageQueue {
   private db: DatabaseType;
   private dbPath: string;
+  private accountId: string;
+  private leaseOwner: string;
   private cleanupInterval: NodeJS.Timeout | null = null;
 
   // Prepared statements (using any[] for flexibility)
   private stmtEnqueueOutbound: AnyStatement;
   private stmtDequeueOutbound: AnyStatement;
   private stmtCheckOutboundDupe: AnyStatement;
+  private stmtCheckOutboundKey: AnyStatement;
   private stmtCheckSentDupe: AnyStatement;
   private stmtUpdateOutbound: AnyStatement;
   private stmtMarkOutboundProcessing: AnyStatement;
+  private stmtSetOutboundUpload: AnyStatement;
   private stmtRecordSent: AnyStatement;
   private stmtEnqueueInbound: AnyStatement;
   private stmtDequeueInbound: AnyStatement;
   private stmtUpdateInbound: AnyStatement;
   private stmtMarkInboundProcessing: AnyStatement;
   private stmtCheckInboundExists: AnyStatement;
-
-  constructor(dbPath?: string) {
+  private stmtFollowingInbound: AnyStatement;
+  private stmtLatestThreadMessage: AnyStatement;
+  private stmtRenewOutboundLease: AnyStatement;
+  private stmtRenewInboundLease: AnyStatement;
+  private stmtReleaseInbound: AnyStatement;
+  private stmtCheckEventProcessed: AnyStatement;
+  private stmtGetInboundDeliveries: AnyStatement;
+  private stmtRecordInboundDelivery: AnyStatement;
+  private stmtMarkEventProcessed: AnyStatement;
+
+  /** Content-addressed store for this queue's inbound attachments */
+  readonly media: MediaStore;
+
+  constructor(dbPath?: string, accountId: string = DEFAULT_ID, options: { media?: MediaStoreOptions } = {}) {
+    this.accountId = accountId;
+    this.leaseOwner = `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
     this.dbPath = dbPath ?? path.join(
       process.env.HOME ?? '/root',
       '.openclaw',
@@ -80,79 +122,160 @@ export class MessageQueue {
     this.db.pragma('journal_mode = WAL');
     this.db.pragma('synchronous = NORMAL');
 
-    this.initializeSchema();
-    this.resetStuckMessages();
+    runMigrations(this.db, this.dbPath, { mediaDir: options.media?.dir });
+    this.media = new MediaStore(this.db, accountId, options.media);
 
     // Initialize prepared statements
     this.stmtEnqueueOutbound = this.db.prepare(`
-      INSERT INTO outbound_queue 
-        (queue_type, run_id, session_key, chat_id, content, content_hash, status, created_at, updated_at, next_retry_at)
-      VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)
+      INSERT OR IGNORE INTO outbound_queue 
+        (account_id, queue_type, run_id, session_key, chat_id, content, content_hash, idempotency_key, lark_uuid,
+         payload_type, media_json, reply_to_message_id, reply_in_thread, status, created_at, updated_at, next_retry_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)
     `);
 
+    // Per-chat FIFO: only the oldest undelivered message of each chat is eligible.
+    // A later message waits while an earlier one is processing or backing off.
     this.stmtDequeueOutbound = this.db.prepare(`
-      SELECT * FROM outbound_queue 
-      WHERE status = 'pending'
-        AND (next_retry_at IS NULL OR next_retry_at <= ?)
-      ORDER BY created_at ASC
+      SELECT * FROM outbound_queue o
+      WHERE o.account_id = ? AND o.status = 'pending'
+        AND (o.next_retry_at IS NULL OR o.next_retry_at <= ?)
+        AND NOT EXISTS (
+          SELECT 1 FROM outbound_queue prev
+          WHERE prev.account_id = o.account_id AND prev.chat_id = o.chat_id
+            AND prev.status IN ('pending', 'processing') AND prev.id < o.id
+        )
+      ORDER BY o.id ASC
       LIMIT ?
     `);
 
     this.stmtCheckOutboundDupe = this.db.prepare(`
-      SELECT id FROM outbound_queue 
-      WHERE content_hash = ? AND chat_id = ? AND created_at > ? AND status IN ('pending', 'processing')
+      SELECT id, status FROM outbound_queue 
+      WHERE account_id = ? AND content_hash = ? AND chat_id = ? AND created_at > ? AND status IN ('pending', 'processing')
       LIMIT 1
     `);
 
+    this.stmtCheckOutboundKey = this.db.prepare(`
+      SELECT id, status, lark_message_id FROM outbound_queue WHERE account_id = ? AND idempotency_key = ?
+    `);
+
     this.stmtCheckSentDupe = this.db.prepare(`
-      SELECT id FROM sent_messages 
-      WHERE content_hash = ? AND chat_id = ? AND created_at > ?
+      SELECT lark_message_id FROM sent_messages 
+      WHERE account_id = ? AND content_hash = ? AND chat_id = ? AND created_at > ?
       LIMIT 1
     `);
 
     this.stmtUpdateOutbound = this.db.prepare(`
       UPDATE outbound_queue 
       SET status = ?, updated_at = ?, retries = ?, next_retry_at = ?, last_error = ?, 
-          completed_at = ?, lark_message_id = ?
-      WHERE id = ?
+          completed_at = ?, lark_message_id = ?, lease_owner = NULL, lease_expires_at = NULL
+      WHERE id = ? AND lease_owner = ?
     `);
 
     this.stmtMarkOutboundProcessing = this.db.prepare(`
-      UPDATE outbound_queue SET status = 'processing', updated_at = ? WHERE id = ?
+      UPDATE outbound_queue SET status = 'processing', updated_at = ?, lease_owner = ?, lease_expires_at = ?
+      WHERE id = ? AND status = 'pending'
+    `);
+
+    this.stmtSetOutboundUpload = this.db.prepare(`
+      UPDATE outbound_queue SET upload_key = ?, upload_type = ?, updated_at = ? WHERE id = ?
+    `);
+
+    this.stmtRenewOutboundLease = this.db.prepare(`
+      UPDATE outbound_queue SET lease_expires_at = ?
+      WHERE id = ? AND status = 'processing' AND lease_owner = ?
     `);
 
     this.stmtRecordSent = this.db.prepare(`
-      INSERT INTO sent_messages (content_hash, chat_id, lark_message_id, created_at)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO sent_messages (account_id, content_hash, chat_id, lark_message_id, created_at)
+      VALUES (?, ?, ?, ?, ?)
     `);
 
     this.stmtEnqueueInbound = this.db.prepare(`
       INSERT OR IGNORE INTO inbound_queue 
-        (message_id, chat_id, session_key, message_text, attachments_json, status, created_at, updated_at, next_retry_at)
-      VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, ?)
+        (account_id, message_id, chat_id, session_key, message_text, attachments_json,
+         chat_type, sender_open_id, sender_union_id, sender_user_id, sender_type,
+         root_id, parent_id, thread_id, mentions_json, lark_create_time, reply_to_body, reply_to_sender,
+         status, created_at, updated_at, next_retry_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)
     `);
 
+    // Per-chat serialization: only the oldest unfinished message of each chat is eligible
     this.stmtDequeueInbound = this.db.prepare(`
-      SELECT * FROM inbound_queue 
-      WHERE status = 'pending'
-        AND (next_retry_at IS NULL OR next_retry_at <= ?)
-      ORDER BY created_at ASC
+      SELECT * FROM inbound_queue i
+      WHERE i.account_id = ? AND i.status = 'pending'
+        AND (i.next_retry_at IS NULL OR i.next_retry_at <= ?)
+        AND NOT EXISTS (
+          SELECT 1 FROM inbound_queue prev
+          WHERE prev.account_id = i.account_id AND prev.chat_id = i.chat_id
+            AND prev.status IN ('pending', 'processing') AND prev.id < i.id
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM inbound_queue recent
+          WHERE recent.account_id = i.account_id AND recent.chat_id = i.chat_id
+            AND recent.session_key = i.session_key AND recent.status = 'pending'
+            AND recent.created_at > ?
+        )
+      ORDER BY i.id ASC
       LIMIT ?
     `);
 
+    this.stmtFollowingInbound = this.db.prepare(`
+      SELECT * FROM inbound_queue
+      WHERE account_id = ? AND chat_id = ? AND id > ? AND status = 'pending'
+      ORDER BY id ASC
+      LIMIT ?
+    `);
+
+    this.stmtReleaseInbound = this.db.prepare(`
+      UPDATE inbound_queue SET status = 'pending', updated_at = ?, lease_owner = NULL, lease_expires_at = NULL
+      WHERE id = ? AND status = 'processing' AND lease_owner = ?
+    `);
+
     this.stmtUpdateInbound = this.db.prepare(`
       UPDATE inbound_queue 
       SET status = ?, updated_at = ?, retries = ?, next_retry_at = ?, last_error = ?, 
-          completed_at = ?, response_text = ?
-      WHERE id = ?
+          completed_at = ?, response_text = ?, lease_owner = NULL, lease_expires_at = NULL
+      WHERE id = ? AND lease_owner = ?
     `);
 
     this.stmtMarkInboundProcessing = this.db.prepare(`
-      UPDATE inbound_queue SET status = 'processing', updated_at = ? WHERE id = ?
+      UPDATE inbound_queue SET status = 'processing', updated_at = ?, lease_owner = ?, lease_expires_at = ?
+      WHERE id = ? AND status = 'pending'
+    `);
+
+    this.stmtRenewInboundLease = this.db.prepare(`
+      UPDATE inbound_queue SET lease_expires_at = ?
+      WHERE id = ? AND status = 'processing' AND lease_owner = ?
     `);
 
     this.stmtCheckInboundExists = this.db.prepare(`
-      SELECT id, status FROM inbound_queue WHERE message_id = ?
+      SELECT id, status FROM inbound_queue WHERE account_id = ? AND message_id = ?
+    `);
+
+    this.stmtCheckEventProcessed = this.db.prepare(`
+      SELECT event_id FROM processed_events WHERE event_id = ? AND processed_at > ?
+    `);
+
+    this.stmtMarkEventProcessed = this.db.prepare(`
+      INSERT INTO processed_events (event_id, event_type, processed_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT(event_id) DO UPDATE SET event_type = excluded.event_type, processed_at = excluded.processed_at
+      WHERE processed_events.processed_at <= ?
+    `);
+
+    this.stmtLatestThreadMessage = this.db.prepare(`
+      SELECT message_id FROM inbound_queue
+      WHERE account_id = ? AND chat_id = ? AND thread_id = ?
+      ORDER BY id DESC LIMIT 1
+    `).pluck();
+
+    this.stmtGetInboundDeliveries = this.db.prepare(`
+      SELECT block_index, content_hash FROM inbound_deliveries WHERE inbound_id = ?
+    `);
+
+    this.stmtRecordInboundDelivery = this.db.prepare(`
+      INSERT OR REPLACE INTO inbound_deliveries (inbound_id, block_index, content_hash, outbound_id, delivered_at)
+      VALUES (?, ?, ?, ?, ?)
     `);
 
     this.recoverStuck();
@@ -162,94 +285,6 @@ export class MessageQueue {
     this.cleanupInterval = setInterval(() => this.cleanup(), 60 * 60 * 1000);
   }
 
-  private initializeSchema(): void {
-    this.db.exec(`
-      -- Outbound queue: messages TO Lark (replies + mirrors)
-      CREATE TABLE IF NOT EXISTS outbound_queue (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        queue_type TEXT NOT NULL,        -- 'reply' or 'mirror'
-        run_id TEXT,
-        session_key TEXT NOT NULL,
-        chat_id TEXT NOT NULL,
-        content TEXT NOT NULL,
-        content_hash TEXT NOT NULL,
-        status TEXT DEFAULT 'pending',   -- pending, processing, completed, failed_permanent
-        retries INTEGER DEFAULT 0,
-        next_retry_at INTEGER,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL,
-        completed_at INTEGER,
-        lark_message_id TEXT,
-        last_error TEXT
-      );
-      
-      CREATE INDEX IF NOT EXISTS idx_outbound_status ON outbound_queue(status, next_retry_at);
-      CREATE INDEX IF NOT EXISTS idx_outbound_hash ON outbound_queue(content_hash, chat_id, created_at);
-      
-      -- Inbound queue: messages FROM Lark (to Gateway)
-      CREATE TABLE IF NOT EXISTS inbound_queue (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        message_id TEXT NOT NULL UNIQUE,  -- Lark message_id for dedup
-        chat_id TEXT NOT NULL,
-        session_key TEXT NOT NULL,
-        message_text TEXT NOT NULL,
-        attachments_json TEXT,            -- JSON array of attachments
-        status TEXT DEFAULT 'pending',
-        retries INTEGER DEFAULT 0,
-        next_retry_at INTEGER,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL,
-        completed_at INTEGER,
-        response_text TEXT,
-        last_error TEXT
-      );
-      
-      CREATE INDEX IF NOT EXISTS idx_inbound_status ON inbound_queue(status, next_retry_at);
-      CREATE INDEX IF NOT EXISTS idx_inbound_msgid ON inbound_queue(message_id);
-      
-      -- Sent message tracking (for dedup)
-      CREATE TABLE IF NOT EXISTS sent_messages (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        content_hash TEXT NOT NULL,
-        chat_id TEXT NOT NULL,
-        lark_message_id TEXT,
-        created_at INTEGER NOT NULL
-      );
-      
-      CREATE INDEX IF NOT EXISTS idx_sent_hash ON sent_messages(content_hash, chat_id, created_at);
-    `);
-  }
-
-  /**
-   * Reset any messages that were in 'processing' state when the service stopped.
-   * This prevents messages from getting stuck after a restart.
-   */
-  private resetStuckMessages(): void {
-    const now = Date.now();
-    
-    // Reset inbound messages stuck in processing
-    const inboundReset = this.db.prepare(`
-      UPDATE inbound_queue 
-      SET status = 'pending', retries = retries, updated_at = ?
-      WHERE status = 'processing'
-    `).run(now);
-    
-    if (inboundReset.changes > 0) {
-      console.log(`[QUEUE] ⚠️ Reset ${inboundReset.changes} stuck inbound message(s) to pending`);
-    }
-    
-    // Reset outbound messages stuck in processing
-    const outboundReset = this.db.prepare(`
-      UPDATE outbound_queue 
-      SET status = 'pending', retries = retries, updated_at = ?
-      WHERE status = 'processing'
-    `).run(now);
-    
-    if (outboundReset.changes > 0) {
-      console.log(`[QUEUE] ⚠️ Reset ${outboundReset.changes} stuck outbound message(s) to pending`);
-    }
-  }
-
   // ─── Helpers ─────────────────────────────────────────────────────
 
   private hashContent(content: string): string {
@@ -271,7 +306,16 @@ export class MessageQueue {
   // ─── Outbound Queue (Gateway → Lark) ─────────────────────────────
 
   /**
-   * Queue an outbound message (reply or mirror) for delivery to Lark
+   * Queue an outbound message (reply or mirror) for delivery to Lark.
+   *
+   * `content` is sent as text by default. With `payloadType` it is a card's JSON
+   * ('card') or the caption of `media` ('image'/'file'). With `replyTo` it is sent as
+   * a reply to that Lark message (in its thread if `replyInThread`).
+   *
+   * Dedup is explicit: a message with an `idempotencyKey` seen before (e.g. run id +
+   * block index) is not queued again, and the original row id / lark_message_id are
+   * returned. Content-hash dedup (same text to the same chat within 10 minutes) is
+   * an opt-in fallback via `dedupByContent`.
    */
   enqueueOutbound(
     queueType: 'reply' | 'mirror',
@@ -280,85 +324,143 @@ export class MessageQueue {
       sessionKey: string;
       chatId: string;
       content: string;
+      payloadType?: OutboundPayloadType;
+      media?: OutboundMediaRef;
+      replyTo?: string;
+      replyInThread?: boolean;
+      idempotencyKey?: string;
+      dedupByContent?: boolean;
     }
   ): EnqueueResult {
     const now = Date.now();
-    const hash = this.hashContent(params.content);
+    const payloadType = params.payloadType ?? 'text';
+    // Local files are stored by absolute path, the form the media store pins on
+    const media = params.media ? { ...params.media, url: resolveMediaPath(params.media.url) } : undefined;
+    // Text rows keep hashing the bare text, so content dedup still matches rows sent before typed payloads
+    const hash = this.hashContent(
+      payloadType === 'text' ? params.content : `${payloadType}\n${media?.url ?? ''}\n${params.content}`
+    );
     const dedupCutoff = now - DEDUP_WINDOW_MS;
 
-    // Check for duplicate pending
-    const existingPending = this.stmtCheckOutboundDupe.get(hash, params.chatId, dedupCutoff) as { id: number } | undefined;
-    if (existingPending) {
-      return { enqueued: false, reason: 'duplicate_pending' };
+    if (params.idempotencyKey) {
+      const existing = this.findOutboundByKey(params.idempotencyKey);
+      if (existing) {
+        return existing;
+      }
     }
 
-    // Check if already sent recently
-    const existingSent = this.stmtCheckSentDupe.get(hash, params.chatId, dedupCutoff) as { id: number } | undefined;
-    if (existingSent) {
-      return { enqueued: false, reason: 'already_sent' };
+    if (params.dedupByContent) {
+      // Check for duplicate pending
+      const existingPending = this.stmtCheckOutboundDupe.get(this.accountId, hash, params.chatId, dedupCutoff) as { id: number; status: string } | undefined;
+      if (existingPending) {
+        return { enqueued: false, reason: 'duplicate_pending', id: existingPending.id, existing: existingPending.status };
+      }
+
+      // Check if already sent recently
+      const existingSent = this.stmtCheckSentDupe.get(this.accountId, hash, params.chatId, dedupCutoff) as { lark_message_id: string | null } | undefined;
+      if (existingSent) {
+        return { enqueued: false, reason: 'already_sent', larkMessageId: existingSent.lark_message_id };
+      }
     }
 
     const result = this.stmtEnqueueOutbound.run(
+      this.accountId,
       queueType,
       params.runId ?? '',
       params.sessionKey,
       params.chatId,
       params.content,
       hash,
+      params.idempotencyKey ?? null,
+      crypto.randomUUID(),
+      payloadType,
+      media ? JSON.stringify(media) : null,
+      params.replyTo ?? null,
+      params.replyTo && params.replyInThread ? 1 : 0,
       now,
       now,
       now
     );
 
-    console.log(`[QUEUE-OUT] Enqueued ${queueType} #${result.lastInsertRowid} | chat=${params.chatId} | ${params.content.length} chars`);
+    if (result.changes === 0 && params.idempotencyKey) {
+      // Lost a race with another process enqueueing the same key
+      const existing = this.findOutboundByKey(params.idempotencyKey);
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const summary = media ? `${payloadType} ${media.fileName ?? path.basename(media.url)}` : `${params.content.length} chars`;
+    console.log(`[QUEUE-OUT] Enqueued ${queueType} #${result.lastInsertRowid} | chat=${params.chatId} | ${summary}`);
 
     return { enqueued: true, id: Number(result.lastInsertRowid) };
   }
 
+  private findOutboundByKey(idempotencyKey: string): EnqueueResult | null {
+    const row = this.stmtCheckOutboundKey.get(this.accountId, idempotencyKey) as
+      { id: number; status: string; lark_message_id: string | null } | undefined;
+    if (!row) {
+      return null;
+    }
+    return {
+      enqueued: false,
+      reason: 'duplicate_key',
+      id: row.id,
+      existing: row.status,
+      larkMessageId: row.lark_message_id,
+    };
+  }
+
   /**
-   * Dequeue outbound messages ready for processing
+   * Dequeue outbound messages ready for processing - at most one per chat (its oldest
+   * undelivered message), so callers can send the returned rows concurrently
    */
   dequeueOutbound(limit = 10): OutboundMessage[] {
-    return this.stmtDequeueOutbound.all(Date.now(), limit) as OutboundMessage[];
+    this.recoverStuck();
+    return this.stmtDequeueOutbound.all(this.accountId, Date.now(), limit) as OutboundMessage[];
   }
 
   /**
-   * Mark outbound message as being processed
+   * Claim an outbound message for sending (takes a lease).
+   * Returns false if it is no longer pending (e.g. claimed by another process).
    */
-  markOutboundProcessing(id: number): void {
-    this.stmtMarkOutboundProcessing.run(Date.now(), id);
+  markOutboundProcessing(id: number): boolean {
+    const now = Date.now();
+    return this.stmtMarkOutboundProcessing.run(now, this.leaseOwner, now + LEASE_TTL_MS, id).changes > 0;
+  }
+
+  /**
+   * Remember the image_key/file_key of an uploaded outbound image/file, so a retry
+   * of the send does not upload it again
+   */
+  setOutboundUpload(id: number, uploadKey: string, uploadType: OutboundUploadType): void {
+    this.stmtSetOutboundUpload.run(uploadKey, uploadType, Date.now(), id);
   }
 
   /**
    * Mark outbound message as completed
    */
-  markOutboundCompleted(id: number, larkMessageId: string | null): void {
+  markOutboundCompleted(id: number, larkMessageId: string | null): boolean {
     const now = Date.now();
     const msg = this.db.prepare('SELECT * FROM outbound_queue WHERE id = ?').get(id) as OutboundMessage | undefined;
 
-    this.stmtUpdateOutbound.run(
-      'completed',
-      now,
-      msg?.retries ?? 0,
-      null,
-      null,
-      now,
-      larkMessageId,
-      id
-    );
+    if (!this.updateLeased('outbound', id, 'completed', now, msg?.retries ?? 0, null, null, now, larkMessageId)) {
+      return false;
+    }
 
     if (msg) {
-      this.stmtRecordSent.run(msg.content_hash, msg.chat_id, larkMessageId, now);
+      this.stmtRecordSent.run(this.accountId, msg.content_hash, msg.chat_id, larkMessageId, now);
     }
 
     console.log(`[QUEUE-OUT] ✅ Completed #${id} | lark_id=${larkMessageId}`);
+    return true;
   }
 
   /**
    * Mark outbound message for retry (120 retries max with exponential backoff up to 120 min)
    * After max retries, mark as failed_permanent but KEEP in DB for manual review
    */
-  markOutboundRetry(id: number, errorMessage: string): void {
+  markOutboundRetry(id: number, errorMessage: string): boolean {
     const now = Date.now();
     const msg = this.db.prepare('SELECT * FROM outbound_queue WHERE id = ?').get(id) as OutboundMessage | undefined;
     const retries = (msg?.retries ?? 0) + 1;
@@ -366,20 +468,56 @@ export class MessageQueue {
     if (this.hasExceededMaxRetries(retries)) {
       // Max retries exceeded - mark as failed_permanent but DO NOT delete
       // Message stays in DB for manual review / alerting
-      this.stmtUpdateOutbound.run('failed_permanent', now, retries, null, errorMessage, null, null, id);
+      if (!this.updateLeased('outbound', id, 'failed_permanent', now, retries, null, errorMessage, null, null)) return false;
       console.error(`[QUEUE-OUT] ❌ FAILED_PERMANENT #${id} after ${retries} retries | ${errorMessage}`);
       console.error(`[QUEUE-OUT] ⚠️ Message NOT deleted - manual intervention required`);
-      return;
+      return true;
     }
 
     const backoffMs = this.calculateBackoff(retries);
     const nextRetryAt = now + backoffMs;
 
-    this.stmtUpdateOutbound.run('pending', now, retries, nextRetryAt, errorMessage, null, null, id);
+    if (!this.updateLeased('outbound', id, 'pending', now, retries, nextRetryAt, errorMessage, null, null)) return false;
     const nextRetryFormatted = backoffMs >= 60000 
       ? `${Math.round(backoffMs / 60000)}m` 
       : `${Math.round(backoffMs / 1000)}s`;
     console.log(`[QUEUE-OUT] 🔄 Retry #${id} in ${nextRetryFormatted} (attempt ${retries}/${MAX_RETRIES})`);
+    return true;
+  }
+
+  /**
+   * Mark outbound message as permanently failed (non-retryable Lark error).
+   * KEEP in DB for manual review
+   */
+  markOutboundFailed(id: number, errorMessage: string): boolean {
+    const now = Date.now();
+    const msg = this.getOutbound(id);
+    if (!this.updateLeased('outbound', id, 'failed_permanent', now, msg?.retries ?? 0, null, errorMessage, null, null)) {
+      return false;
+    }
+    console.error(`[QUEUE-OUT] ❌ FAILED_PERMANENT #${id} (non-retryable) | ${errorMessage}`);
+    return true;
+  }
+
+  /**
+   * Withdraw an outbound message that is no longer wanted. Only works while it is
+   * still pending - returns false once a consumer has claimed or sent it.
+   */
+  cancelOutbound(id: number, reason: string): boolean {
+    const result = this.db.prepare(`
+      UPDATE outbound_queue SET status = 'cancelled', updated_at = ?, last_error = ?, next_retry_at = NULL
+      WHERE id = ? AND status = 'pending'
+    `).run(Date.now(), reason, id);
+    if (result.changes === 0) return false;
+    console.log(`[QUEUE-OUT] 🚫 Cancelled #${id} | ${reason}`);
+    return true;
+  }
+
+  /**
+   * Look up an outbound message by id (e.g. to check delivery status)
+   */
+  getOutbound(id: number): OutboundMessage | undefined {
+    return this.db.prepare('SELECT * FROM outbound_queue WHERE id = ?').get(id) as OutboundMessage | undefined;
   }
 
   // ─── Inbound Queue (Lark → Gateway) ──────────────────────────────
@@ -393,22 +531,37 @@ export class MessageQueue {
     sessionKey: string;
     messageText: string;
     attachments?: Attachment[] | null;
+    metadata?: InboundMetadata;
   }): EnqueueResult {
     const now = Date.now();
 
     // Check if already exists
-    const existing = this.stmtCheckInboundExists.get(params.messageId) as { id: number; status: string } | undefined;
+    const existing = this.stmtCheckInboundExists.get(this.accountId, params.messageId) as { id: number; status: string } | undefined;
     if (existing) {
       return { enqueued: false, reason: 'duplicate', existing: existing.status };
     }
 
     const attachmentsJson = params.attachments ? JSON.stringify(params.attachments) : null;
+    const meta = params.metadata ?? {};
     const result = this.stmtEnqueueInbound.run(
+      this.accountId,
       params.messageId,
       params.chatId,
       params.sessionKey,
       params.messageText,
       attachmentsJson,
+      meta.chatType ?? null,
+      meta.senderOpenId || null,
+      meta.senderUnionId || null,
+      meta.senderUserId || null,
+      meta.senderType || null,
+      meta.rootId || null,
+      meta.parentId || null,
+      meta.threadId || null,
+      meta.mentions && meta.mentions.length > 0 ? JSON.stringify(meta.mentions) : null,
+      meta.createTime ?? null,
+      meta.replyToBody || null,
+      meta.replyToSender || null,
       now,
       now,
       now
@@ -423,63 +576,192 @@ export class MessageQueue {
   }
 
   /**
-   * Dequeue inbound messages ready for processing
+   * Dequeue inbound messages ready for processing - at most one per chat (its oldest
+   * unfinished message), so callers can dispatch the returned rows concurrently.
+   * With a coalesce window, a chat is held back until its sender has been quiet
+   * for that long (debounce).
+   */
+  dequeueInbound(limit = 5, coalesceMs = 0): InboundMessage[] {
+    this.recoverStuck();
+    const now = Date.now();
+    // created_at is never in the future, so a zero window disables the quiet check
+    return this.stmtDequeueInbound.all(this.accountId, now, now - coalesceMs, limit) as InboundMessage[];
+  }
+
+  /**
+   * Pending messages that directly follow `head` in its chat, from the same sender,
+   * each within `windowMs` of the previous one - to be dispatched together with it
    */
-  dequeueInbound(limit = 5): InboundMessage[] {
-    return this.stmtDequeueInbound.all(Date.now(), limit) as InboundMessage[];
+  collectCoalescedInbound(head: InboundMessage, windowMs: number, limit = 20): InboundMessage[] {
+    const rows = this.stmtFollowingInbound.all(this.accountId, head.chat_id, head.id, limit) as InboundMessage[];
+    const batch: InboundMessage[] = [];
+    let previous = head;
+    for (const row of rows) {
+      if (row.session_key !== head.session_key || row.created_at - previous.created_at > windowMs) {
+        break;
+      }
+      batch.push(row);
+      previous = row;
+    }
+    return batch;
   }
 
   /**
-   * Mark inbound message as being processed
+   * Return a claimed (processing) inbound message to pending without counting a retry
    */
-  markInboundProcessing(id: number): void {
-    this.stmtMarkInboundProcessing.run(Date.now(), id);
+  releaseInbound(id: number): void {
+    this.stmtReleaseInbound.run(Date.now(), id, this.leaseOwner);
+  }
+
+  /**
+   * Claim an inbound message for dispatch (takes a lease).
+   * Returns false if it is no longer pending (e.g. claimed by another process).
+   */
+  markInboundProcessing(id: number): boolean {
+    const now = Date.now();
+    return this.stmtMarkInboundProcessing.run(now, this.leaseOwner, now + LEASE_TTL_MS, id).changes > 0;
   }
 
   /**
    * Mark inbound message as completed (got response from Gateway)
    */
-  markInboundCompleted(id: number, responseText: string): void {
+  markInboundCompleted(id: number, responseText: string): boolean {
     const now = Date.now();
     const msg = this.db.prepare('SELECT * FROM inbound_queue WHERE id = ?').get(id) as InboundMessage | undefined;
-    this.stmtUpdateInbound.run(
-      'completed',
-      now,
-      msg?.retries ?? 0,
-      null,
-      null,
-      now,
-      responseText,
-      id
-    );
+    if (!this.updateLeased('inbound', id, 'completed', now, msg?.retries ?? 0, null, null, now, responseText)) {
+      return false;
+    }
     console.log(`[QUEUE-IN] ✅ Completed #${id} | response=${responseText?.length ?? 0} chars`);
+    return true;
   }
 
   /**
    * Mark inbound message for retry (120 retries max with exponential backoff up to 120 min)
    * After max retries, mark as failed_permanent but KEEP in DB
    */
-  markInboundRetry(id: number, errorMessage: string): void {
+  markInboundRetry(id: number, errorMessage: string): boolean {
     const now = Date.now();
     const msg = this.db.prepare('SELECT * FROM inbound_queue WHERE id = ?').get(id) as InboundMessage | undefined;
     const retries = (msg?.retries ?? 0) + 1;
 
     if (this.hasExceededMaxRetries(retries)) {
       // Max retries exceeded - mark as failed_permanent but DO NOT delete
-      this.stmtUpdateInbound.run('failed_permanent', now, retries, null, errorMessage, null, null, id);
+      if (!this.updateLeased('inbound', id, 'failed_permanent', now, retries, null, errorMessage, null, null)) return false;
       console.error(`[QUEUE-IN] ❌ FAILED_PERMANENT #${id} after ${retries} retries | ${errorMessage}`);
       console.error(`[QUEUE-IN] ⚠️ Message NOT deleted - manual intervention required`);
-      return;
+      return true;
     }
 
     const backoffMs = this.calculateBackoff(retries);
     const nextRetryAt = now + backoffMs;
 
-    this.stmtUpdateInbound.run('pending', now, retries, nextRetryAt, errorMessage, null, null, id);
+    if (!this.updateLeased('inbound', id, 'pending', now, retries, nextRetryAt, errorMessage, null, null)) return false;
     const nextRetryFormatted = backoffMs >= 60000 
       ? `${Math.round(backoffMs / 60000)}m` 
       : `${Math.round(backoffMs / 1000)}s`;
     console.log(`[QUEUE-IN] 🔄 Retry #${id} in ${nextRetryFormatted} (attempt ${retries}/${MAX_RETRIES})`);
+    return true;
+  }
+
+  /**
+   * Latest inbound message of a Lark thread - the reply target for a send addressed
+   * to a thread rather than to a message
+   */
+  getLatestThreadMessageId(chatId: string, threadId: string): string | undefined {
+    return this.stmtLatestThreadMessage.get(this.accountId, chatId, threadId) as string | undefined;
+  }
+
+  // ─── Inbound Deliveries (partial replies) ────────────────────────
+
+  /**
+   * Check whether reply block `blockIndex` with this content was already delivered
+   * for an inbound message (by an earlier attempt)
+   */
+  wasBlockDelivered(inboundId: number, blockIndex: number, content: string): boolean {
+    const hash = this.hashContent(content);
+    return this.getInboundDeliveries(inboundId).some(
+      (d) => d.block_index === blockIndex && d.content_hash === hash
+    );
+  }
+
+  /**
+   * Reply blocks delivered so far for an inbound message
+   */
+  getInboundDeliveries(inboundId: number): Array<{ block_index: number; content_hash: string }> {
+    return this.stmtGetInboundDeliveries.all(inboundId) as Array<{ block_index: number; content_hash: string }>;
+  }
+
+  /**
+   * Record a reply block as delivered (enqueued to the durable outbound queue)
+   */
+  recordInboundDelivery(inboundId: number, blockIndex: number, content: string, outboundId?: number): void {
+    this.stmtRecordInboundDelivery.run(inboundId, blockIndex, this.hashContent(content), outboundId ?? null, Date.now());
+  }
+
+  // ─── Leases ──────────────────────────────────────────────────────
+
+  /**
+   * Renew the leases of claimed rows until the returned stop function is called.
+   * Call it right after claiming, and stop once the rows are completed or retried.
+   * If a lease was lost (expired and reclaimed by another worker), renewal stops
+   * and onLost is called: the caller must abandon the work, the row is no longer its own.
+   */
+  keepLeasesAlive(kind: 'inbound' | 'outbound', ids: number[], onLost?: (id: number) => void): () => void {
+    const stmt = kind === 'inbound' ? this.stmtRenewInboundLease : this.stmtRenewOutboundLease;
+    const timer = setInterval(() => {
+      const expiresAt = Date.now() + LEASE_TTL_MS;
+      for (const id of ids) {
+        try {
+          if (stmt.run(expiresAt, id, this.leaseOwner).changes === 0) {
+            console.warn(`[QUEUE] ⚠️ Lease lost for ${kind} #${id} - abandoning it`);
+            clearInterval(timer);
+            onLost?.(id);
+            return;
+          }
+        } catch (e) {
+          console.warn(`[QUEUE] Lease renewal failed for ${kind} #${id}: ${(e as Error).message}`);
+        }
+      }
+    }, LEASE_HEARTBEAT_MS);
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Update a row this worker holds the lease for. Returns false (and changes
+   * nothing) if the lease was lost, so a stale worker cannot overwrite the state
+   * written by the worker that reclaimed the row.
+   */
+  private updateLeased(
+    kind: 'inbound' | 'outbound',
+    id: number,
+    ...values: [string, number, number, number | null, string | null, number | null, string | null]
+  ): boolean {
+    const stmt = kind === 'inbound' ? this.stmtUpdateInbound : this.stmtUpdateOutbound;
+    if (stmt.run(...values, id, this.leaseOwner).changes > 0) {
+      return true;
+    }
+    console.warn(`[QUEUE] ⚠️ ${kind} #${id} is not leased by this worker - not updated`);
+    return false;
+  }
+
+  // ─── Event Dedup (Lark redeliveries) ─────────────────────────────
+
+  /**
+   * Check whether a Lark event (header.event_id) was already handled within the TTL
+   */
+  isEventProcessed(eventId: string): boolean {
+    const cutoff = Date.now() - EVENT_DEDUP_TTL_MS;
+    return this.stmtCheckEventProcessed.get(eventId, cutoff) !== undefined;
+  }
+
+  /**
+   * Record a Lark event as handled. Returns false if it was already recorded within the TTL.
+   */
+  markEventProcessed(eventId: string, eventType?: string): boolean {
+    const now = Date.now();
+    const result = this.stmtMarkEventProcessed.run(eventId, eventType ?? null, now, now - EVENT_DEDUP_TTL_MS);
+    return result.changes > 0;
   }
 
   // ─── Stats & Maintenance ─────────────────────────────────────────
@@ -493,8 +775,8 @@ export class MessageQueue {
         COUNT(CASE WHEN status = 'processing' THEN 1 END) as processing,
         COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed,
         COUNT(CASE WHEN status = 'failed_permanent' THEN 1 END) as failed
-      FROM outbound_queue WHERE created_at > ?
-    `).get(cutoff) as { pending: number; processing: number; completed: number; failed: number };
+      FROM outbound_queue WHERE account_id = ? AND created_at > ?
+    `).get(this.accountId, cutoff) as { pending: number; processing: number; completed: number; failed: number };
 
     const inbound = this.db.prepare(`
       SELECT 
@@ -502,8 +784,8 @@ export class MessageQueue {
         COUNT(CASE WHEN status = 'processing' THEN 1 END) as processing,
         COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed,
         COUNT(CASE WHEN status = 'failed_permanent' THEN 1 END) as failed
-      FROM inbound_queue WHERE created_at > ?
-    `).get(cutoff) as { pending: number; processing: number; completed: number; failed: number };
+      FROM inbound_queue WHERE account_id = ? AND created_at > ?
+    `).get(this.accountId, cutoff) as { pending: number; processing: number; completed: number; failed: number };
 
     return { outbound, inbound, dbPath: this.dbPath };
   }
@@ -511,52 +793,35 @@ export class MessageQueue {
   cleanup(): void {
     const cutoff = Date.now() - MESSAGE_TTL_MS;
 
-    const outDeleted = this.db.prepare("DELETE FROM outbound_queue WHERE created_at < ? AND status = 'completed'").run(cutoff);
+    const outDeleted = this.db.prepare("DELETE FROM outbound_queue WHERE created_at < ? AND status IN ('completed', 'cancelled')").run(cutoff);
     const inDeleted = this.db.prepare("DELETE FROM inbound_queue WHERE created_at < ? AND status = 'completed'").run(cutoff);
     const sentDeleted = this.db.prepare('DELETE FROM sent_messages WHERE created_at < ?').run(cutoff);
+    this.db.prepare('DELETE FROM processed_events WHERE processed_at < ?').run(Date.now() - EVENT_DEDUP_TTL_MS);
+    this.db.prepare('DELETE FROM inbound_deliveries WHERE delivered_at < ?').run(cutoff);
 
     if (outDeleted.changes > 0 || inDeleted.changes > 0) {
       console.log(`[QUEUE] Cleanup: outbound=${outDeleted.changes}, inbound=${inDeleted.changes}, sent=${sentDeleted.changes}`);
     }
 
-    this.cleanupMediaFiles(cutoff);
-  }
-
-  private cleanupMediaFiles(cutoffMs: number): void {
-    const mediaDir = path.join(process.env.HOME ?? '/root', '.openclaw', 'media', 'lark-inbound');
-    try {
-      if (!fs.existsSync(mediaDir)) return;
-      const files = fs.readdirSync(mediaDir);
-      let deleted = 0;
-      for (const file of files) {
-        const filePath = path.join(mediaDir, file);
-        try {
-          const stat = fs.statSync(filePath);
-          if (stat.mtimeMs < cutoffMs) {
-            fs.unlinkSync(filePath);
-            deleted++;
-          }
-        } catch { /* skip */ }
-      }
-      if (deleted > 0) {
-        console.log(`[QUEUE] Media cleanup: deleted ${deleted} old file(s) from ${mediaDir}`);
-      }
-    } catch { /* ignore */ }
+    this.media.evict();
   }
 
+  /**
+   * Return rows whose lease expired (owner crashed or hung) to pending.
+   * Rows without a lease predate lease tracking and are reclaimed immediately.
+   */
   recoverStuck(): void {
-    const fiveMinAgo = Date.now() - 5 * 60 * 1000;
     const now = Date.now();
 
     const outResult = this.db.prepare(`
-      UPDATE outbound_queue SET status = 'pending', updated_at = ?
-      WHERE status = 'processing' AND updated_at < ?
-    `).run(now, fiveMinAgo);
+      UPDATE outbound_queue SET status = 'pending', updated_at = ?, lease_owner = NULL, lease_expires_at = NULL
+      WHERE account_id = ? AND status = 'processing' AND (lease_expires_at IS NULL OR lease_expires_at < ?)
+    `).run(now, this.accountId, now);
 
     const inResult = this.db.prepare(`
-      UPDATE inbound_queue SET status = 'pending', updated_at = ?
-      WHERE status = 'processing' AND updated_at < ?
-    `).run(now, fiveMinAgo);
+      UPDATE inbound_queue SET status = 'pending', updated_at = ?, lease_owner = NULL, lease_expires_at = NULL
+      WHERE account_id = ? AND status = 'processing' AND (lease_expires_at IS NULL OR lease_expires_at < ?)
+    `).run(now, this.accountId, now);
 
     if (outResult.changes > 0 || inResult.changes > 0) {
       console.log(`[QUEUE] Recovered stuck: outbound=${outResult.changes}, inbound=${inResult.changes}`);
@@ -568,27 +833,46 @@ export class MessageQueue {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
     }
+
+    // Hand our in-flight rows back right away instead of waiting for the leases to expire
+    for (const table of ['inbound_queue', 'outbound_queue']) {
+      this.db.prepare(`
+        UPDATE ${table} SET status = 'pending', updated_at = ?, lease_owner = NULL, lease_expires_at = NULL
+        WHERE status = 'processing' AND lease_owner = ?
+      `).run(Date.now(), this.leaseOwner);
+    }
+
     this.db.close();
   }
 
   get path(): string {
     return this.dbPath;
   }
+
+  get account(): string {
+    return this.accountId;
+  }
 }
 
 const queueRegistry = new Map<string, MessageQueue>();
-const DEFAULT_ID = 'default';
 
-export function getQueue(dbPath?: string, accountId?: string): MessageQueue {
+export function getQueue(dbPath?: string, accountId?: string, options?: { media?: MediaStoreOptions }): MessageQueue {
   const id = accountId ?? DEFAULT_ID;
   let queue = queueRegistry.get(id);
   if (!queue) {
-    queue = new MessageQueue(dbPath);
+    queue = new MessageQueue(dbPath, id, options);
     queueRegistry.set(id, queue);
   }
   return queue;
 }
 
+/**
+ * Get the queue of a running account without creating one
+ */
+export function findQueue(accountId?: string): MessageQueue | undefined {
+  return queueRegistry.get(accountId ?? DEFAULT_ID);
+}
+
 export function closeQueue(accountId?: string): void {
   const id = accountId ?? DEFAULT_ID;
   const queue = queueRegistry.get(id);
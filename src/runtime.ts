@@ -22,7 +22,7 @@ export interface LarkPluginRuntime {
         dispatcherOptions: {
           responsePrefix?: string;
           responsePrefixContextProvider?: () => Record<string, unknown>;
-          deliver: (payload: { text?: string; mediaUrl?: string }, info: { kind: string }) => Promise<void>;
+          deliver: (payload: { text?: string; mediaUrl?: string; mediaUrls?: string[]; replyToId?: string }, info: { kind: string }) => Promise<void>;
           onSkip?: (payload: unknown, info: { reason: string }) => void;
           onError?: (err: Error, info: { kind: string }) => void;
           onReplyStart?: () => void;
@@ -34,6 +34,7 @@ export interface LarkPluginRuntime {
           disableBlockStreaming?: boolean;
           onModelSelected?: (ctx: { provider: string; model: string; thinkLevel?: string }) => void;
           images?: Array<{ type: 'image'; data: string; mimeType: string }>;
+          abortSignal?: AbortSignal;
         };
       }) => Promise<{ queuedFinal?: boolean }>;
       finalizeInboundContext: (ctx: Record<string, unknown>) => Record<string, unknown>;
@@ -45,6 +46,7 @@ export interface LarkPluginRuntime {
         channel: string;
         accountId?: string;
         peer?: { kind: 'group' | 'dm'; id: string };
+        parentPeer?: { kind: 'group' | 'dm'; id: string };
       }) => {
         sessionKey: string;
         mainSessionKey: string;
@@ -0,0 +1,183 @@
+/**
+ * Streaming Reply Card
+ *
+ * Shows an agent reply while it is being written instead of after the whole
+ * block is buffered:
+ * - start(): sends a placeholder card when the reply starts
+ * - update(): patches the card with the partial text, at most once per interval
+ * - updateReasoning(): the same for the agent's reasoning (collapsible panel)
+ * - finalize(): patches in the final text; false means the caller must send it
+ *   the normal way (placeholder not sent, or the patch failed and the card was removed)
+ * - close(): settles a card the run never finalized
+ *
+ * Patches are best effort: after a failed partial patch the card stops
+ * updating and only the final patch is still attempted.
+ */
+
+import type { LarkCard } from './types.js';
+import { buildStreamingCard } from './card-builder.js';
+
+// ─── Constants ───────────────────────────────────────────────────
+
+// Lark allows 5 updates per second per message; one per second keeps well clear
+export const STREAM_PATCH_INTERVAL_MS = 1000;
+
+// Replies that are never shown (see selectMessageType); their prefixes are not streamed
+const SILENT_REPLIES = ['NO_REPLY', 'HEARTBEAT_OK'];
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export interface StreamingCardOptions {
+  /** Send the placeholder card; resolves to its message id, or null if it was not sent */
+  create: (card: LarkCard) => Promise<string | null>;
+  /** Replace the card's content; resolves to false on failure */
+  patch: (messageId: string, card: LarkCard) => Promise<boolean>;
+  /** Remove the card when the run ends without any text */
+  remove: (messageId: string) => Promise<boolean>;
+  sessionKey?: string;
+  intervalMs?: number;
+}
+
+// ─── Streaming Card ──────────────────────────────────────────────
+
+export class StreamingCard {
+  private readonly intervalMs: number;
+  private created: Promise<void> | null = null;
+  private messageId: string | null = null;
+  private latestText = '';
+  private patchedText = '';
+  private latestReasoning = '';
+  private patchedReasoning = '';
+  private lastPatchAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<void> = Promise.resolve();
+  private streamFailed = false;
+  private finished = false;
+
+  constructor(private readonly options: StreamingCardOptions) {
+    this.intervalMs = options.intervalMs ?? STREAM_PATCH_INTERVAL_MS;
+  }
+
+  /** True once finalize() or close() was called */
+  get done(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Send the placeholder card (once)
+   */
+  start(): void {
+    if (this.created) return;
+    this.created = this.options.create(buildStreamingCard('', { done: false }))
+      .then((messageId) => {
+        this.messageId = messageId;
+        if (!messageId) {
+          console.warn('[STREAM] ⚠️ Placeholder card not sent - reply will be sent when complete');
+          return;
+        }
+        console.log(`[STREAM] Placeholder card ${messageId}`);
+        if (this.latestText || this.latestReasoning) this.schedule();
+      })
+      .catch((err) => {
+        console.error('[STREAM] ❌ Placeholder card failed:', (err as Error).message);
+      });
+  }
+
+  /**
+   * Show the reply written so far (the full text, not a delta)
+   */
+  update(text: string): void {
+    if (this.finished || !text || SILENT_REPLIES.some((token) => token.startsWith(text.trim()))) return;
+    this.latestText = text;
+    if (this.messageId && !this.streamFailed) this.schedule();
+  }
+
+  /**
+   * Show the reasoning written so far (the full text, not a delta)
+   */
+  updateReasoning(text: string): void {
+    if (this.finished || !text) return;
+    this.latestReasoning = text;
+    if (this.messageId && !this.streamFailed) this.schedule();
+  }
+
+  /**
+   * Patch the final text into the card. Returns false if the card could not be
+   * updated (it is then removed), so the caller sends the reply as a regular message instead.
+   */
+  async finalize(text: string): Promise<boolean> {
+    if (this.finished) return false;
+    this.stop();
+    await this.created;
+    await this.inFlight;
+    if (!this.messageId) return false;
+
+    const ok = await this.options.patch(this.messageId, buildStreamingCard(text, this.finalOptions()));
+    if (!ok) {
+      // The reply goes out as a new message: drop the half-written card so it is not shown twice
+      console.warn(`[STREAM] ⚠️ Final patch of ${this.messageId} failed - removing the card, sending the reply as a new message`);
+      await this.options.remove(this.messageId);
+    }
+    return ok;
+  }
+
+  /**
+   * End a card that was never finalized: keep the text streamed so far, or
+   * remove the placeholder if nothing was written (e.g. the agent chose not to
+   * reply). keepText=false always removes it, for a run that failed and will be retried.
+   */
+  async close(keepText = true): Promise<void> {
+    if (this.finished) return;
+    this.stop();
+    await this.created;
+    await this.inFlight;
+    if (!this.messageId) return;
+
+    if (keepText && this.latestText) {
+      await this.options.patch(this.messageId, buildStreamingCard(this.latestText, this.finalOptions()));
+    } else {
+      await this.options.remove(this.messageId);
+    }
+  }
+
+  private finalOptions(): { done: true; sessionKey?: string; reasoning: string } {
+    return { done: true, sessionKey: this.options.sessionKey, reasoning: this.latestReasoning };
+  }
+
+  private stop(): void {
+    this.finished = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    const wait = Math.max(0, this.lastPatchAt + this.intervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, wait);
+  }
+
+  private flush(): void {
+    const text = this.latestText;
+    const reasoning = this.latestReasoning;
+    const messageId = this.messageId;
+    if (this.finished || this.streamFailed || !messageId) return;
+    if (text === this.patchedText && reasoning === this.patchedReasoning) return;
+
+    this.lastPatchAt = Date.now();
+    this.patchedText = text;
+    this.patchedReasoning = reasoning;
+    this.inFlight = this.inFlight.then(async () => {
+      if (this.finished) return;
+      const ok = await this.options.patch(messageId, buildStreamingCard(text, { done: false, reasoning }));
+      if (!ok) {
+        this.streamFailed = true;
+        console.warn(`[STREAM] ⚠️ Patch of ${messageId} failed - no further updates until the reply is complete`);
+      }
+    });
+  }
+}
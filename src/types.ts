@@ -11,6 +11,9 @@ export interface LarkChannelConfig {
   appSecret?: string;
   appSecretFile?: string;
   encryptKey?: string;
+  verificationToken?: string;
+  signatureMaxSkewSec?: number;
+  connectionMode?: 'webhook' | 'websocket';
   webhookPort?: number;
   webhookBind?: string;
   enabled?: boolean;
@@ -20,16 +23,35 @@ export interface LarkChannelConfig {
   groupPolicy?: 'open' | 'allowlist' | 'deny';
   groupAllowFrom?: string[];
   groups?: Record<string, LarkGroupConfig>;
+  replyMode?: LarkReplyMode;
+  threadSessions?: boolean;
+  blockStreaming?: boolean;
+  showReasoning?: boolean;
   queueDbPath?: string;
+  inboundConcurrency?: number;
+  inboundCoalesceMs?: number;
+  outboundWorkers?: number;
+  mediaQuotaMb?: number;
+  mediaChatQuotaMb?: number;
+  mediaLocalRoots?: string[];
   domain?: 'lark' | 'feishu';
   name?: string;
   accounts?: Record<string, LarkAccountConfig>;
 }
 
+/**
+ * How replies are posted: a new message in the chat, a reply quoting the
+ * user's message, or a reply in the message's thread
+ */
+export type LarkReplyMode = 'new' | 'quote' | 'thread';
+
 export interface LarkGroupConfig {
   requireMention?: boolean;
   name?: string;
   enabled?: boolean;
+  replyMode?: LarkReplyMode;
+  threadSessions?: boolean;
+  showReasoning?: boolean;
 }
 
 export interface LarkAccountConfig extends LarkChannelConfig {
@@ -43,6 +65,8 @@ export interface ResolvedLarkAccount {
   appId: string;
   appSecret: string;
   encryptKey: string;
+  verificationToken: string;
+  connectionMode: 'webhook' | 'websocket';
   webhookPort: number;
   webhookBind: string;
   domain: 'lark' | 'feishu';
@@ -54,7 +78,8 @@ export interface ResolvedLarkAccount {
 
 export interface QueueMessage {
   id: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed_permanent';
+  account_id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed_permanent' | 'cancelled';
   retries: number;
   next_retry_at: number | null;
   created_at: number;
@@ -70,8 +95,56 @@ export interface InboundMessage extends QueueMessage {
   message_text: string;
   attachments_json: string | null;
   response_text: string | null;
+  chat_type: 'p2p' | 'group' | null;
+  sender_open_id: string | null;
+  sender_union_id: string | null;
+  sender_user_id: string | null;
+  sender_type: string | null;
+  root_id: string | null;
+  parent_id: string | null;
+  thread_id: string | null;
+  mentions_json: string | null;
+  lark_create_time: number | null;
+  reply_to_body: string | null;
+  reply_to_sender: string | null;
+}
+
+/**
+ * Lark-side metadata persisted with an inbound message (rows queued before
+ * it was stored have none)
+ */
+export interface InboundMetadata {
+  chatType?: 'p2p' | 'group';
+  senderOpenId?: string;
+  senderUnionId?: string;
+  senderUserId?: string;
+  senderType?: string;
+  rootId?: string;
+  parentId?: string;
+  threadId?: string;
+  mentions?: LarkMention[];
+  createTime?: number;
+  /** Rendered text of the parent (quoted) message */
+  replyToBody?: string;
+  replyToSender?: string;
 }
 
+/**
+ * What an outbound row sends. `content` holds the text, the card JSON, or the
+ * caption of an image/file.
+ */
+export type OutboundPayloadType = 'text' | 'card' | 'image' | 'file';
+
+/** Media an outbound row sends: an http(s) URL or a local path */
+export interface OutboundMediaRef {
+  url: string;
+  mimeType?: string;
+  fileName?: string;
+}
+
+/** Lark msg_type an uploaded image_key/file_key is sent as */
+export type OutboundUploadType = 'image' | 'file' | 'audio' | 'media';
+
 export interface OutboundMessage extends QueueMessage {
   queue_type: 'reply' | 'mirror';
   run_id: string;
@@ -79,7 +152,14 @@ export interface OutboundMessage extends QueueMessage {
   chat_id: string;
   content: string;
   content_hash: string;
+  lark_uuid: string | null;
   lark_message_id: string | null;
+  payload_type: OutboundPayloadType;
+  media_json: string | null;
+  upload_key: string | null;
+  upload_type: OutboundUploadType | null;
+  reply_to_message_id: string | null;
+  reply_in_thread: number;
 }
 
 export interface QueueStats {
@@ -103,6 +183,7 @@ export interface EnqueueResult {
   reason?: string;
   id?: number;
   existing?: string;
+  larkMessageId?: string | null;
 }
 
 // ─── Webhook Types ───────────────────────────────────────────────
@@ -119,6 +200,7 @@ export interface LarkWebhookEvent {
   };
   event?: LarkMessageEvent;
   type?: string;
+  token?: string;
   challenge?: string;
   encrypt?: string;
 }
@@ -140,6 +222,7 @@ export interface LarkMessageEvent {
     create_time?: string;
     chat_id?: string;
     chat_type?: 'p2p' | 'group';
+    thread_id?: string;
     message_type?: 'text' | 'post' | 'image' | 'file' | 'audio' | 'media' | 'sticker' | 'merge_forward';
     content?: string;
     mentions?: LarkMention[];
@@ -163,6 +246,8 @@ export interface LarkCard {
   config?: {
     wide_screen_mode?: boolean;
     enable_forward?: boolean;
+    /** Required for cards that are updated later (im.v1.message.patch) */
+    update_multi?: boolean;
   };
   header?: {
     title?: {
@@ -179,7 +264,8 @@ export type LarkCardElement =
   | LarkCardHr
   | LarkCardNote
   | LarkCardAction
-  | LarkCardImage;
+  | LarkCardImage
+  | LarkCardCollapsiblePanel;
 
 export interface LarkCardDiv {
   tag: 'div';
@@ -231,6 +317,34 @@ export interface LarkCardImage {
   };
 }
 
+/**
+ * Card 2.0 collapsible panel (clients before 7.9 show an upgrade hint instead)
+ */
+export interface LarkCardCollapsiblePanel {
+  tag: 'collapsible_panel';
+  expanded?: boolean;
+  header: {
+    title: {
+      tag: 'plain_text' | 'markdown';
+      content: string;
+    };
+    icon?: {
+      tag: 'standard_icon';
+      token: string;
+      color?: string;
+    };
+    icon_position?: 'left' | 'right' | 'follow_text';
+    icon_expanded_angle?: number;
+  };
+  border?: {
+    color?: string;
+    corner_radius?: string;
+  };
+  vertical_spacing?: string;
+  padding?: string;
+  elements: LarkCardElement[];
+}
+
 // ─── API Response Types ──────────────────────────────────────────
 
 export interface LarkSendResult {
@@ -245,6 +359,25 @@ export interface LarkImageUploadResult {
   error?: string;
 }
 
+/** msg_type accepted by im.v1.message.create / reply */
+export type LarkMsgType = 'text' | 'post' | 'interactive' | 'image' | 'file' | 'audio' | 'media';
+
+/** file_type accepted by im.v1.file.create */
+export type LarkFileType = 'opus' | 'mp4' | 'pdf' | 'doc' | 'xls' | 'ppt' | 'stream';
+
+export interface LarkFileUploadResult {
+  success: boolean;
+  fileKey?: string;
+  error?: string;
+}
+
+/** Outbound media loaded from a URL, local path or data: URL */
+export interface LoadedMedia {
+  buffer: Buffer;
+  mimeType: string;
+  fileName: string;
+}
+
 export interface LarkTokenCache {
   token: string | null;
   expireTime: number;
@@ -253,13 +386,15 @@ export interface LarkTokenCache {
 // ─── Attachment Types ────────────────────────────────────────────
 
 /**
- * Image attachment (base64 encoded)
+ * Image attachment, stored by reference to the file on disk
  */
 export interface ImageAttachment {
   type?: 'image';
   mimeType: string;
-  content?: string;  // base64 (deprecated - use path instead)
   path?: string;     // file path (preferred)
+  sha256?: string;   // hex digest of the file, checked when the bytes are loaded
+  size?: number;     // bytes
+  content?: string;  // base64 (legacy rows only - no longer written)
 }
 
 /**
@@ -270,6 +405,18 @@ export interface FileAttachment {
   path: string;
   mimeType: string;
   fileName?: string;
+  sha256?: string;
+  size?: number;
+}
+
+/**
+ * A message resource downloaded to disk
+ */
+export interface DownloadedMedia {
+  path: string;
+  sha256: string;
+  size: number;
+  mimeType: string;
 }
 
 /**
@@ -3,16 +3,13 @@
  * 
  * HTTP server for receiving Lark events:
  * - URL verification
- * - Message events (text, post, image)
+ * - Message events (text, post, image), with the quoted message of a reply
  * - Encryption/decryption support
  * - Immediate persistence (no message loss)
  */
 
 import http from 'node:http';
 import crypto from 'node:crypto';
-import fs from 'node:fs';
-import path from 'node:path';
-import os from 'node:os';
 import type { Server } from 'node:http';
 import type {
   LarkWebhookEvent,
@@ -42,6 +39,34 @@ export function decryptPayload(encrypt: string, encryptKey: string): unknown {
   );
 }
 
+// ─── Request Verification ────────────────────────────────────────
+
+const DEFAULT_SIGNATURE_MAX_SKEW_SEC = 300; // 5 minutes
+
+/**
+ * Compute a Lark request signature.
+ * Events (and schema 2.0 card callbacks) use SHA-256 over timestamp + nonce + encryptKey + body;
+ * legacy card callbacks use SHA-1 over timestamp + nonce + verificationToken + body.
+ */
+export function computeSignature(
+  timestamp: string,
+  nonce: string,
+  secret: string,
+  body: string,
+  algorithm: 'sha256' | 'sha1' = 'sha256'
+): string {
+  return crypto.createHash(algorithm).update(timestamp + nonce + secret + body).digest('hex');
+}
+
+/**
+ * Constant-time comparison of two hex signatures
+ */
+export function signaturesMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected, 'utf8');
+  const b = Buffer.from(actual, 'utf8');
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
 // ─── Group Chat Filtering ────────────────────────────────────────
 
 /**
@@ -77,13 +102,58 @@ export function shouldRespondInGroup(
   return false;
 }
 
+// ─── Quoted Messages ─────────────────────────────────────────────
+
+/**
+ * Visible text of an interactive card as returned by im.v1.message.get:
+ * every `title`/`text`/`content` string, in document order
+ */
+export function cardText(content: string): string {
+  const parts: string[] = [];
+  const walk = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node && typeof node === 'object') {
+      for (const [key, value] of Object.entries(node)) {
+        if (typeof value === 'string' && (key === 'title' || key === 'text' || key === 'content') && value.trim()) {
+          parts.push(value.trim());
+        } else {
+          walk(value);
+        }
+      }
+    }
+  };
+  try {
+    walk(JSON.parse(content));
+  } catch {
+    return '';
+  }
+  return parts.join('\n');
+}
+
+/** A parent (quoted) message rendered for the agent */
+interface ParentContext {
+  body: string;
+  sender?: string;
+  attachments: Attachment[];
+}
+
+// Replies in a chain usually quote the same few messages
+const PARENT_CACHE_TTL_MS = 10 * 60 * 1000;
+const PARENT_CACHE_MAX_ENTRIES = 500;
+
 // ─── Webhook Handler ─────────────────────────────────────────────
 
+const DEFAULT_ACCOUNT_ID = 'default';
 
 export interface WebhookConfig {
+  accountId?: string;
+  appId?: string;
   port: number;
   bind?: string;
   encryptKey?: string;
+  verificationToken?: string;
+  signatureMaxSkewSec?: number;
   queue: MessageQueue;
   client: LarkClient;
   onMessage?: (event: LarkMessageEvent) => void;
@@ -96,208 +166,166 @@ export interface WebhookConfig {
 
 export class WebhookHandler {
   private config: WebhookConfig;
-  private server: Server | null = null;
+  private shared: SharedWebhookServer | null = null;
+
+  // Nonce replay cache: nonce → expiry timestamp (ms)
+  private seenNonces = new Map<string, number>();
 
-  // Directory to save file attachments
-  private readonly mediaDir: string;
+  // Events currently being handled (guards concurrent redeliveries before they are persisted)
+  private inFlightEvents = new Set<string>();
+
+  // Parent messages already fetched: message_id → rendered context + expiry (ms)
+  private parentCache = new Map<string, { context: ParentContext; expiresAt: number }>();
 
   constructor(config: WebhookConfig) {
     this.config = config;
-    this.mediaDir = path.join(os.homedir(), '.openclaw', 'media', 'lark-inbound');
-    
-    // Ensure directory exists
-    try {
-      if (!fs.existsSync(this.mediaDir)) {
-        fs.mkdirSync(this.mediaDir, { recursive: true, mode: 0o700 });
-      }
-    } catch {
-      // Ignore
-    }
   }
 
   /**
-   * Save a file attachment to disk and return the path.
-   * This allows the agent to access files via the read tool.
+   * Check if server is running
    */
-  private saveFileAttachment(base64: string, mimeType: string, fileName?: string): string {
-    // Ensure directory exists
-    if (!fs.existsSync(this.mediaDir)) {
-      fs.mkdirSync(this.mediaDir, { recursive: true, mode: 0o700 });
-    }
-
-    // Determine extension from mime type or filename
-    const mimeExtensions: Record<string, string> = {
-      'application/zip': '.zip',
-      'application/pdf': '.pdf',
-      'application/msword': '.doc',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
-      'application/vnd.ms-excel': '.xls',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
-      'text/plain': '.txt',
-      'text/csv': '.csv',
-      'application/json': '.json',
-      'audio/ogg': '.ogg',
-      'audio/opus': '.opus',
-      'audio/mpeg': '.mp3',
-      'audio/wav': '.wav',
-      'image/png': '.png',
-      'image/jpeg': '.jpg',
-      'image/gif': '.gif',
-    };
-
-    let ext = mimeExtensions[mimeType] ?? '';
-    if (!ext && fileName) {
-      const match = fileName.match(/\.[^.]+$/);
-      if (match) ext = match[0];
-    }
-    if (!ext) ext = '.bin';
-
-    // Create filename with original name if available
-    const timestamp = Date.now();
-    let finalName: string;
-    if (fileName) {
-      const baseName = path.parse(fileName).name.replace(/[^a-zA-Z0-9_\-]/g, '_').slice(0, 50);
-      finalName = `${baseName}_${timestamp}${ext}`;
-    } else {
-      finalName = `file_${timestamp}${ext}`;
-    }
-
-    const filePath = path.join(this.mediaDir, finalName);
-    const buffer = Buffer.from(base64, 'base64');
-    fs.writeFileSync(filePath, buffer, { mode: 0o600 });
-
-    console.log(`[WEBHOOK] Saved file: ${filePath} (${Math.round(buffer.byteLength / 1024)}KB)`);
-    return filePath;
+  isRunning(): boolean {
+    return this.shared !== null && this.shared.isListening();
   }
 
   /**
-   * Check if server is running
+   * Account this handler serves (routing key on the shared server)
    */
-  isRunning(): boolean {
-    return this.server !== null && this.server.listening;
+  get accountId(): string {
+    return this.config.accountId ?? DEFAULT_ACCOUNT_ID;
   }
 
   /**
-   * Start the HTTP server (idempotent - won't fail if already running)
+   * Register with the shared HTTP server for this bind:port, starting it if needed
+   * (idempotent - won't fail if already running)
    */
-  start(): Promise<void> {
-    // Already running - skip
-    if (this.server !== null) {
-      if (this.server.listening) {
-        console.log(`[WEBHOOK] Already running on port ${this.config.port}`);
-        return Promise.resolve();
-      }
-      // Server exists but not listening - close it first
-      this.server.close();
-      this.server = null;
+  async start(): Promise<void> {
+    if (this.shared) {
+      console.log(`[WEBHOOK] Already running on port ${this.config.port}`);
+      return;
     }
 
-    return new Promise((resolve, reject) => {
-      this.server = http.createServer((req, res) => this.handleRequest(req, res));
+    const shared = acquireSharedServer(this.config.port, this.config.bind ?? '127.0.0.1');
+    shared.register(this);
+    this.shared = shared;
 
-      this.server.on('error', (err: NodeJS.ErrnoException) => {
-        // If EADDRINUSE, check if it's our own server from a previous instance
-        if (err.code === 'EADDRINUSE') {
-          // Try to connect to health endpoint - if it responds with our signature, we're already running
-          const http = require('http');
-          const req = http.get(`http://127.0.0.1:${this.config.port}/health`, (res: http.IncomingMessage) => {
-            let data = '';
-            res.on('data', (chunk: string) => data += chunk);
-            res.on('end', () => {
-              try {
-                const health = JSON.parse(data);
-                if (health.guaranteedDelivery === true && health.unlimitedRetries === true) {
-                  console.log(`[WEBHOOK] Port ${this.config.port} already has our webhook running (reusing)`);
-                  // Don't reject - the webhook is already running from previous instance
-                  resolve();
-                  return;
-                }
-              } catch {
-                // Not our server
-              }
-              reject(err);
-            });
-          });
-          req.on('error', () => reject(err));
-          req.setTimeout(1000, () => {
-            req.destroy();
-            reject(err);
-          });
-          return;
-        }
-        reject(err);
-      });
+    try {
+      await shared.listen();
+    } catch (e) {
+      this.shared = null;
+      await releaseSharedServer(shared, this);
+      throw e;
+    }
+  }
 
-      const bindAddr = this.config.bind ?? '127.0.0.1';
-      this.server.listen(this.config.port, bindAddr, () => {
-        console.log(`[WEBHOOK] 🚀 Listening on port ${this.config.port}`);
-        resolve();
-      });
-    });
+  /**
+   * Unregister from the shared server; the server stops when its last account leaves
+   */
+  async stop(): Promise<void> {
+    const shared = this.shared;
+    if (!shared) return;
+    this.shared = null;
+    await releaseSharedServer(shared, this);
   }
 
   /**
-   * Stop the HTTP server
+   * Check whether a parsed (possibly encrypted) payload belongs to this account's app
    */
-  stop(): Promise<void> {
-    return new Promise((resolve) => {
-      if (this.server) {
-        this.server.close(() => {
-          this.server = null;
-          resolve();
-        });
-      } else {
-        resolve();
+  matchesPayload(data: { encrypt?: string; app_id?: string; header?: { app_id?: string } }): boolean {
+    let payload = data;
+    if (data.encrypt) {
+      if (!this.config.encryptKey) return false;
+      try {
+        payload = decryptPayload(data.encrypt, this.config.encryptKey) as typeof data;
+      } catch {
+        return false;
       }
-    });
+    }
+    const appId = payload?.header?.app_id ?? payload?.app_id;
+    // Decrypting successfully is enough when the payload carries no app_id (e.g. url_verification)
+    return appId ? appId === this.config.appId : Boolean(data.encrypt);
   }
 
   /**
-   * Handle incoming HTTP request
+   * Verify signature headers (timestamp skew, nonce replay, signature).
+   * Returns a rejection reason, or null if the request is acceptable.
    */
-  private async handleRequest(
+  private verifySignature(
     req: http.IncomingMessage,
-    res: http.ServerResponse
-  ): Promise<void> {
-    // Health check
-    if (req.method === 'GET' && req.url === '/health') {
-      const stats = this.config.queue.getStats();
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        status: 'ok',
-        version: '1.0.0',
-        guaranteedDelivery: true,
-        unlimitedRetries: true,
-        queue: stats,
-      }));
-      return;
+    rawBody: string,
+    kind: 'event' | 'legacy_card'
+  ): string | null {
+    const secret = kind === 'event' ? this.config.encryptKey : this.config.verificationToken;
+    if (!secret) {
+      return null;
     }
 
-    // Card callback endpoint - support both old and new URLs (transition period)
-    if (req.method === 'POST' && (req.url === '/lark/cards' || req.url === '/webhook/card')) {
-      console.log(`[WEBHOOK] Card callback received at ${req.url}`);
-      await this.handleCardRequest(req, res);
-      return;
+    const timestamp = req.headers['x-lark-request-timestamp'];
+    const nonce = req.headers['x-lark-request-nonce'];
+    const signature = req.headers['x-lark-signature'];
+    if (typeof timestamp !== 'string' || typeof nonce !== 'string' || typeof signature !== 'string') {
+      return 'missing signature headers';
     }
 
-    // Message events endpoint - support both old and new URLs (transition period)
-    const isMessageEndpoint = req.url === '/lark/events' || req.url === '/webhook';
-    if (req.method !== 'POST' || !isMessageEndpoint) {
-      res.writeHead(404);
-      res.end('Not found');
-      return;
+    const now = Date.now();
+    const maxSkewMs = (this.config.signatureMaxSkewSec ?? DEFAULT_SIGNATURE_MAX_SKEW_SEC) * 1000;
+    const timestampMs = Number(timestamp) * 1000;
+    if (!Number.isFinite(timestampMs) || Math.abs(now - timestampMs) > maxSkewMs) {
+      return `timestamp outside ${maxSkewMs / 1000}s window`;
     }
-    console.log(`[WEBHOOK] Message event received at ${req.url}`);
 
-    // Read body
-    const chunks: Buffer[] = [];
-    for await (const chunk of req) {
-      chunks.push(chunk as Buffer);
+    const expected = computeSignature(timestamp, nonce, secret, rawBody, kind === 'event' ? 'sha256' : 'sha1');
+    if (!signaturesMatch(expected, signature)) {
+      return 'signature mismatch';
     }
 
+    for (const [seen, expiresAt] of this.seenNonces) {
+      if (expiresAt < now) this.seenNonces.delete(seen);
+    }
+    if (this.seenNonces.has(nonce)) {
+      return 'nonce replayed';
+    }
+    this.seenNonces.set(nonce, now + 2 * maxSkewMs);
+
+    return null;
+  }
+
+  /**
+   * Check the verification token carried in the (decrypted) payload
+   */
+  private verifyToken(data: { token?: string; header?: { token?: string } }): boolean {
+    if (!this.config.verificationToken) {
+      return true;
+    }
+    const token = data.header?.token ?? data.token;
+    return typeof token === 'string' && signaturesMatch(this.config.verificationToken, token);
+  }
+
+  /**
+   * Reject a request that failed verification
+   */
+  private reject(res: http.ServerResponse, reason: string, json = false): void {
+    console.warn(`[WEBHOOK] 🚫 Rejected request: ${reason}`);
+    if (json) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Unauthorized' }));
+    } else {
+      res.writeHead(401);
+      res.end('Unauthorized');
+    }
+  }
+
+  /**
+   * Handle a message event request (called by the shared HTTP server)
+   */
+  async handleEventRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    rawBody: string
+  ): Promise<void> {
     let data: LarkWebhookEvent;
     try {
-      data = JSON.parse(Buffer.concat(chunks).toString('utf8')) as LarkWebhookEvent;
+      data = JSON.parse(rawBody) as LarkWebhookEvent;
     } catch {
       res.writeHead(400);
       res.end('Bad JSON');
@@ -315,50 +343,100 @@ export class WebhookHandler {
       }
     }
 
-    // URL verification challenge
+    if (!this.verifyToken(data)) {
+      this.reject(res, 'verification token mismatch');
+      return;
+    }
+
+    // URL verification challenge (not signed by Lark - the token check above applies)
     if (data.type === 'url_verification' && data.challenge) {
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ challenge: data.challenge }));
       return;
     }
 
-    // Respond immediately (async processing) for message events
-    res.writeHead(200);
-    res.end('ok');
+    const signatureError = this.verifySignature(req, rawBody, 'event');
+    if (signatureError) {
+      this.reject(res, signatureError);
+      return;
+    }
+
+    // Answer once the message is queued: Lark redelivers an event only after an
+    // error response (or none within its 3s window), never after a 200
+    const handled = await this.handleEvent(data);
+    res.writeHead(handled ? 200 : 500);
+    res.end(handled ? 'ok' : 'Event not handled');
+  }
+
+  /**
+   * Handle a decoded event (shared by the HTTP server and the WebSocket long connection).
+   * Returns false if the event could not be handled (e.g. the enqueue failed) and
+   * should be delivered again; skipped redeliveries count as handled.
+   */
+  async handleEvent(data: LarkWebhookEvent): Promise<boolean> {
+    const eventId = data.header?.event_id;
+    if (eventId && !this.beginEvent(eventId)) {
+      return true;
+    }
+
+    try {
+      if (
+        data.schema === '2.0' &&
+        data.header?.event_type === 'im.message.receive_v1' &&
+        data.event
+      ) {
+        await this.handleMessageEvent(data.event);
+      }
+      // Only once the message is safely queued (or deliberately ignored)
+      if (eventId) {
+        this.config.queue.markEventProcessed(eventId, data.header?.event_type);
+      }
+      return true;
+    } catch (e) {
+      // Not recorded as processed: a redelivery of the event gets another chance
+      console.error(`[WEBHOOK-ERROR] Event ${eventId ?? '(no id)'} not handled:`, e);
+      return false;
+    } finally {
+      if (eventId) {
+        this.inFlightEvents.delete(eventId);
+      }
+    }
+  }
 
-    // Handle message events
-    if (
-      data.schema === '2.0' &&
-      data.header?.event_type === 'im.message.receive_v1' &&
-      data.event
-    ) {
-      await this.handleMessageEvent(data.event);
+  /**
+   * Claim an event for handling. Returns false for redeliveries of an event that
+   * is already processed (durable) or still being processed (in memory).
+   */
+  private beginEvent(eventId: string): boolean {
+    if (this.inFlightEvents.has(eventId) || this.config.queue.isEventProcessed(eventId)) {
+      console.log(`[WEBHOOK] ⏭️ Skipped redelivered event ${eventId}`);
+      return false;
     }
+    this.inFlightEvents.add(eventId);
+    return true;
   }
 
   /**
-   * Handle card callback HTTP request (separate endpoint: /webhook/card)
+   * Handle card callback HTTP request (separate endpoint: /lark/<accountId>/cards)
    * This is configured as "Message Card Request URL" in Lark Open Platform
    */
-  private async handleCardRequest(
+  async handleCardRequest(
     req: http.IncomingMessage,
-    res: http.ServerResponse
+    res: http.ServerResponse,
+    rawBody: string
   ): Promise<void> {
-    // Read body
-    const chunks: Buffer[] = [];
-    for await (const chunk of req) {
-      chunks.push(chunk as Buffer);
-    }
-
     let data: any;
     try {
-      data = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      data = JSON.parse(rawBody);
     } catch {
       res.writeHead(400, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'Bad JSON' }));
       return;
     }
 
+    // Schema 2.0 / encrypted callbacks are signed like events; legacy cards use the verification token
+    const isLegacyCard = !('encrypt' in data) && !('schema' in data);
+
     // Handle encryption if needed
     if (data.encrypt && this.config.encryptKey) {
       try {
@@ -370,6 +448,11 @@ export class WebhookHandler {
       }
     }
 
+    if (!this.verifyToken(data)) {
+      this.reject(res, 'verification token mismatch', true);
+      return;
+    }
+
     // URL verification challenge (cards also need this)
     if (data.type === 'url_verification' && data.challenge) {
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -377,8 +460,32 @@ export class WebhookHandler {
       return;
     }
 
+    const signatureError = this.verifySignature(req, rawBody, isLegacyCard ? 'legacy_card' : 'event');
+    if (signatureError) {
+      this.reject(res, signatureError, true);
+      return;
+    }
+
+    // Schema 2.0 callbacks carry header.event_id - acknowledge redeliveries without re-running the action
+    const eventId: string | undefined = data.header?.event_id;
+    if (eventId && !this.beginEvent(eventId)) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({}));
+      return;
+    }
+
     // Process card callback and return response
-    const cardResponse = await this.handleCardCallback(data);
+    let cardResponse: unknown;
+    try {
+      cardResponse = await this.handleCardCallback(data);
+      if (eventId) {
+        this.config.queue.markEventProcessed(eventId, data.header?.event_type);
+      }
+    } finally {
+      if (eventId) {
+        this.inFlightEvents.delete(eventId);
+      }
+    }
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify(cardResponse));
   }
@@ -454,261 +561,588 @@ export class WebhookHandler {
   }
 
   /**
-   * Handle a message event
+   * Handle a message event. Errors (e.g. a failed enqueue) propagate, so the
+   * event is not recorded as processed and a redelivery is handled again.
    */
   private async handleMessageEvent(event: LarkMessageEvent): Promise<void> {
-    try {
-      const message = event.message;
-      const chatId = message?.chat_id;
-      const messageId = message?.message_id;
-      const messageType = message?.message_type;
+    const message = event.message;
+    const chatId = message?.chat_id;
+    const messageId = message?.message_id;
+    const messageType = message?.message_type;
 
-      if (!chatId || !messageId) {
-        return;
-      }
+    if (!chatId || !messageId) {
+      return;
+    }
 
-      let text = '';
-      const attachments: Attachment[] = [];
-
-      // Parse based on message type
-      switch (messageType) {
-        case 'text': {
-          try {
-            const content = JSON.parse(message.content ?? '{}') as { text?: string };
-            text = (content.text ?? '').trim();
-          } catch {
-            return;
-          }
-          break;
+    let text = '';
+    const attachments: Attachment[] = [];
+    const media = this.config.queue.media;
+
+    // Parse based on message type
+    switch (messageType) {
+      case 'text': {
+        try {
+          const content = JSON.parse(message.content ?? '{}') as { text?: string };
+          text = (content.text ?? '').trim();
+        } catch {
+          return;
         }
+        break;
+      }
 
-        case 'post': {
-          const { texts, imageKeys } = this.config.client.parsePostContent(message.content ?? '');
-          text = texts.join(' ').trim();
-
-          // Download images and save to disk
-          for (const key of imageKeys) {
-            const img = await this.config.client.downloadImage(key, messageId);
-            if (img && img.content) {
-              // Save image to disk AND keep content for gateway compatibility
-              const ext = img.mimeType?.includes('png') ? '.png' : '.jpg';
-              const imagePath = this.saveFileAttachment(img.content, img.mimeType, `image_${messageId}_${Date.now()}${ext}`);
-              attachments.push({
-                type: 'image',
-                content: img.content,  // REQUIRED: gateway needs base64 content
-                path: imagePath,       // Optional: disk path for read tool
-                mimeType: img.mimeType,
-              });
-            }
+      case 'post': {
+        const { texts, imageKeys } = this.config.client.parsePostContent(message.content ?? '');
+        text = texts.join(' ').trim();
+
+        // Download images and save to disk
+        for (const key of imageKeys) {
+          // Streamed to disk - the consumer loads the bytes when it dispatches
+          const img = await this.config.client.downloadImage(key, messageId, media.incomingDir);
+          if (img) {
+            attachments.push({ type: 'image', ...media.adopt(img, chatId) });
           }
-          break;
         }
+        break;
+      }
 
-        case 'image': {
-          try {
-            const content = JSON.parse(message.content ?? '{}') as { image_key?: string };
-            if (content.image_key) {
-              const img = await this.config.client.downloadImage(content.image_key, messageId);
-              if (img && img.content) {
-                // Save image to disk AND keep content for gateway compatibility
-                const ext = img.mimeType?.includes('png') ? '.png' : '.jpg';
-                const imagePath = this.saveFileAttachment(img.content, img.mimeType, `image_${messageId}_${Date.now()}${ext}`);
-                attachments.push({
-                  type: 'image',
-                  content: img.content,  // REQUIRED: gateway needs base64 content
-                  path: imagePath,       // Optional: disk path for read tool
-                  mimeType: img.mimeType,
-                });
-              }
+      case 'image': {
+        try {
+          const content = JSON.parse(message.content ?? '{}') as { image_key?: string };
+          if (content.image_key) {
+            // Streamed to disk - the consumer loads the bytes when it dispatches
+            const img = await this.config.client.downloadImage(content.image_key, messageId, media.incomingDir);
+            if (img) {
+              attachments.push({ type: 'image', ...media.adopt(img, chatId) });
             }
-          } catch {
-            // Ignore
           }
-          text = '[User sent an image]';
-          break;
+        } catch {
+          // Ignore
         }
+        text = '[User sent an image]';
+        break;
+      }
 
-        case 'file': {
-          // File message: { "file_key": "...", "file_name": "example.zip" }
-          try {
-            const content = JSON.parse(message.content ?? '{}') as { 
-              file_key?: string; 
-              file_name?: string;
-            };
-            if (content.file_key) {
-              const file = await this.config.client.downloadFile(
-                content.file_key, 
-                messageId, 
-                content.file_name
-              );
-              if (file) {
-                // For files, we save to disk and pass the path
-                const filePath = this.saveFileAttachment(file.base64, file.mimeType, file.fileName);
-                attachments.push({
-                  type: 'file',
-                  path: filePath,
-                  mimeType: file.mimeType,
-                  fileName: file.fileName,
-                });
-                text = `[User sent a file: ${file.fileName}]`;
-              } else {
-                text = `[User sent a file: ${content.file_name ?? 'unknown'}] (download failed)`;
-              }
+      case 'file': {
+        // File message: { "file_key": "...", "file_name": "example.zip" }
+        try {
+          const content = JSON.parse(message.content ?? '{}') as { 
+            file_key?: string; 
+            file_name?: string;
+          };
+          if (content.file_key) {
+            // For files, we stream to disk and pass the path
+            const file = await this.config.client.downloadFile(
+              content.file_key, 
+              messageId, 
+              media.incomingDir,
+              content.file_name
+            );
+            if (file) {
+              attachments.push({
+                type: 'file',
+                ...media.adopt(file, chatId, file.fileName),
+                fileName: file.fileName,
+              });
+              text = `[User sent a file: ${file.fileName}]`;
+            } else {
+              text = `[User sent a file: ${content.file_name ?? 'unknown'}] (download failed)`;
             }
-          } catch (e) {
-            console.error('[WEBHOOK] File parse error:', (e as Error).message);
           }
-          break;
+        } catch (e) {
+          console.error('[WEBHOOK] File parse error:', (e as Error).message);
         }
+        break;
+      }
 
-        case 'audio': {
-          // Audio message: { "file_key": "...", "duration": 1000 }
-          try {
-            const content = JSON.parse(message.content ?? '{}') as { 
-              file_key?: string; 
-              duration?: number;
-            };
-            if (content.file_key) {
-              const audio = await this.config.client.downloadAudio(
-                content.file_key, 
-                messageId, 
-                content.duration
-              );
-              if (audio) {
-                // Save audio to disk for transcription
-                const audioPath = this.saveFileAttachment(
-                  audio.base64, 
-                  audio.mimeType, 
-                  `voice_${messageId}.ogg`
-                );
-                attachments.push({
-                  type: 'file',
-                  path: audioPath,
-                  mimeType: audio.mimeType,
-                  fileName: `voice_${messageId}.ogg`,
-                });
-                const durationSec = audio.durationMs ? Math.round(audio.durationMs / 1000) : 0;
-                text = `[User sent a voice message: ${durationSec}s]`;
-              } else {
-                text = '[User sent a voice message] (download failed)';
-              }
+      case 'audio': {
+        // Audio message: { "file_key": "...", "duration": 1000 }
+        try {
+          const content = JSON.parse(message.content ?? '{}') as { 
+            file_key?: string; 
+            duration?: number;
+          };
+          if (content.file_key) {
+            // Stream audio to disk for transcription
+            const audio = await this.config.client.downloadAudio(
+              content.file_key, 
+              messageId, 
+              media.incomingDir,
+              content.duration
+            );
+            if (audio) {
+              attachments.push({
+                type: 'file',
+                ...media.adopt(audio, chatId),
+                fileName: `voice_${messageId}.ogg`,
+              });
+              const durationSec = audio.durationMs ? Math.round(audio.durationMs / 1000) : 0;
+              text = `[User sent a voice message: ${durationSec}s]`;
+            } else {
+              text = '[User sent a voice message] (download failed)';
             }
-          } catch (e) {
-            console.error('[WEBHOOK] Audio parse error:', (e as Error).message);
           }
-          break;
+        } catch (e) {
+          console.error('[WEBHOOK] Audio parse error:', (e as Error).message);
         }
+        break;
+      }
 
-        case 'merge_forward': {
-          try {
-            const parentMsg = await this.config.client.getMessage(messageId);
-            if (!parentMsg || !parentMsg.children || parentMsg.children.length === 0) {
-              text = '[User forwarded messages]';
-              break;
-            }
-            const parts: string[] = [];
-            for (const child of parentMsg.children.slice(0, 20)) {
-              const type = child.msg_type ?? 'unknown';
-              const body = child.body?.content ?? '';
-              if (type === 'text') {
-                try { parts.push(JSON.parse(body).text ?? body); } catch { parts.push(body); }
-              } else if (type === 'post') {
-                const parsed = this.config.client.parsePostContent(body);
-                parts.push(parsed.texts.join(' '));
-              } else {
-                parts.push(`[${type} message]`);
-              }
-            }
-            const count = parentMsg.children.length;
-            const truncNote = count > 20 ? `\n... and ${count - 20} more messages` : '';
-            text = `[Forwarded ${count} messages]\n${parts.join('\n')}${truncNote}`;
-          } catch (e) {
-            console.error('[WEBHOOK] merge_forward error:', (e as Error).message);
+      case 'merge_forward': {
+        try {
+          const parentMsg = await this.config.client.getMessage(messageId);
+          if (!parentMsg || !parentMsg.children || parentMsg.children.length === 0) {
             text = '[User forwarded messages]';
+            break;
           }
-          break;
+          const parts: string[] = [];
+          for (const child of parentMsg.children.slice(0, 20)) {
+            const type = child.msg_type ?? 'unknown';
+            const body = child.body?.content ?? '';
+            if (type === 'text') {
+              try { parts.push(JSON.parse(body).text ?? body); } catch { parts.push(body); }
+            } else if (type === 'post') {
+              const parsed = this.config.client.parsePostContent(body);
+              parts.push(parsed.texts.join(' '));
+            } else {
+              parts.push(`[${type} message]`);
+            }
+          }
+          const count = parentMsg.children.length;
+          const truncNote = count > 20 ? `\n... and ${count - 20} more messages` : '';
+          text = `[Forwarded ${count} messages]\n${parts.join('\n')}${truncNote}`;
+        } catch (e) {
+          console.error('[WEBHOOK] merge_forward error:', (e as Error).message);
+          text = '[User forwarded messages]';
         }
+        break;
+      }
 
-        default:
-          console.log(`[WEBHOOK] Unsupported message type: ${messageType}`);
-          return;
+      default:
+        console.log(`[WEBHOOK] Unsupported message type: ${messageType}`);
+        return;
+    }
+
+    // Skip empty messages
+    if (!text && attachments.length === 0) {
+      return;
+    }
+
+    // DM allowFrom check (uses sender open_id, enforced by plugin since gateway doesn't auto-check)
+    if (message?.chat_type !== 'group' && this.config.dmAllowFrom && this.config.dmAllowFrom.size > 0) {
+      const senderOpenId = event.sender?.sender_id?.open_id ?? '';
+      if (!this.config.dmAllowFrom.has('*') && !this.config.dmAllowFrom.has(senderOpenId)) {
+        console.log(`[WEBHOOK] 🚫 DM blocked: sender=${senderOpenId} chat=${chatId} (not in allowFrom)`);
+        return;
       }
+    }
 
-      // Skip empty messages
-      if (!text && attachments.length === 0) {
+    // Group chat filtering
+    if (message?.chat_type === 'group') {
+      const mentions = message.mentions ?? [];
+
+      if (this.config.groupAllowlist && !this.config.groupAllowlist.has(chatId)) {
+        console.log(`[WEBHOOK] Ignoring group ${chatId} (not in group allowlist)`);
         return;
       }
 
-      // DM allowFrom check (uses sender open_id, enforced by plugin since gateway doesn't auto-check)
-      if (message?.chat_type !== 'group' && this.config.dmAllowFrom && this.config.dmAllowFrom.size > 0) {
+      // Check sender identity in group (groupAllowFrom)
+      if (this.config.groupAllowFrom && this.config.groupAllowFrom.size > 0) {
         const senderOpenId = event.sender?.sender_id?.open_id ?? '';
-        if (!this.config.dmAllowFrom.has('*') && !this.config.dmAllowFrom.has(senderOpenId)) {
-          console.log(`[WEBHOOK] 🚫 DM blocked: sender=${senderOpenId} chat=${chatId} (not in allowFrom)`);
+        if (!this.config.groupAllowFrom.has('*') && !this.config.groupAllowFrom.has(senderOpenId)) {
+          console.log(`[WEBHOOK] 🚫 Group sender blocked: sender=${senderOpenId} group=${chatId} (not in groupAllowFrom)`);
           return;
         }
       }
 
-      // Group chat filtering
-      if (message?.chat_type === 'group') {
-        const mentions = message.mentions ?? [];
+      text = text.replace(/@_user_\d+\s*/g, '').trim();
 
-        if (this.config.groupAllowlist && !this.config.groupAllowlist.has(chatId)) {
-          console.log(`[WEBHOOK] Ignoring group ${chatId} (not in group allowlist)`);
-          return;
-        }
+      const requireMention = this.config.groupRequireMention ?? true;
+      if (attachments.length === 0 && !shouldRespondInGroup(text, mentions, requireMention)) {
+        return;
+      }
+    }
 
-        // Check sender identity in group (groupAllowFrom)
-        if (this.config.groupAllowFrom && this.config.groupAllowFrom.size > 0) {
-          const senderOpenId = event.sender?.sender_id?.open_id ?? '';
-          if (!this.config.groupAllowFrom.has('*') && !this.config.groupAllowFrom.has(senderOpenId)) {
-            console.log(`[WEBHOOK] 🚫 Group sender blocked: sender=${senderOpenId} group=${chatId} (not in groupAllowFrom)`);
-            return;
-          }
-        }
+    // A reply carries the message it quotes: its text goes to the agent as reply
+    // context, its images as attachments
+    let parent: ParentContext | null = null;
+    if (message.parent_id) {
+      try {
+        parent = await this.fetchParentMessage(message.parent_id, chatId);
+      } catch (e) {
+        // The reply itself is still queued, just without the quote
+        console.error('[WEBHOOK] Parent message fetch failed:', (e as Error).message);
+      }
+    }
+    if (parent) {
+      attachments.push(...parent.attachments);
+    }
 
-        text = text.replace(/@_user_\d+\s*/g, '').trim();
+    // NOTE: Session key is computed by the consumer using resolveAgentRoute()
+    // We don't generate it here because the format depends on config (dmScope, identityLinks)
+    // The consumer will use chat_id to compute the correct session key at processing time
+    // This placeholder is only for queue schema compatibility
+    const senderOpenId = event.sender?.sender_id?.open_id || '';
+    const sessionKey = `lark:${chatId}:${senderOpenId}`;
+    const messageText = text || '[User sent an image]';
+
+    // ⚡ PERSIST IMMEDIATELY - no message loss
+    const createTime = Number(message?.create_time);
+    const result = this.config.queue.enqueueInbound({
+      messageId,
+      chatId,
+      sessionKey,
+      messageText,
+      attachments: attachments.length > 0 ? attachments : null,
+      metadata: {
+        chatType: message?.chat_type,
+        senderOpenId: senderOpenId || undefined,
+        senderUnionId: event.sender?.sender_id?.union_id,
+        senderUserId: event.sender?.sender_id?.user_id,
+        senderType: event.sender?.sender_type,
+        rootId: message?.root_id,
+        parentId: message?.parent_id,
+        threadId: message?.thread_id,
+        mentions: message?.mentions,
+        createTime: Number.isFinite(createTime) && createTime > 0 ? createTime : undefined,
+        replyToBody: parent?.body,
+        replyToSender: parent?.sender,
+      },
+    });
 
-        const requireMention = this.config.groupRequireMention ?? true;
-        if (attachments.length === 0 && !shouldRespondInGroup(text, mentions, requireMention)) {
-          return;
-        }
+    if (result.enqueued) {
+      console.log(`[WEBHOOK] ✅ Queued message ${messageId}`);
+      notifyInboundEnqueued(this.accountId);
+    } else {
+      console.log(`[WEBHOOK] ⏭️ Skipped: ${result.reason}`);
+    }
+
+    // Notify callback
+    this.config.onMessage?.(event);
+  }
+
+  /**
+   * Fetch and render the message a reply quotes, with the same text/post/image
+   * parsing as inbound messages. Cached, so a chain of replies to one message
+   * costs one API call. Null if the message can't be read.
+   */
+  private async fetchParentMessage(parentId: string, chatId: string): Promise<ParentContext | null> {
+    const now = Date.now();
+    const media = this.config.queue.media;
+
+    for (const [id, entry] of this.parentCache) {
+      if (entry.expiresAt < now) this.parentCache.delete(id);
+    }
+    const cached = this.parentCache.get(parentId);
+    if (cached) {
+      for (const a of cached.context.attachments) {
+        if (a.sha256) media.touch(a.sha256, chatId);
       }
+      return cached.context;
+    }
 
-      // NOTE: Session key is computed by the consumer using resolveAgentRoute()
-      // We don't generate it here because the format depends on config (dmScope, identityLinks)
-      // The consumer will use chat_id to compute the correct session key at processing time
-      // This placeholder is only for queue schema compatibility
-      const senderOpenId = event.sender?.sender_id?.open_id || '';
-      const sessionKey = `lark:${chatId}:${senderOpenId}`;
-      const messageText = text || '[User sent an image]';
-
-      // ⚡ PERSIST IMMEDIATELY - no message loss
-      const result = this.config.queue.enqueueInbound({
-        messageId,
-        chatId,
-        sessionKey,
-        messageText,
-        attachments: attachments.length > 0 ? attachments : null,
-      });
+    const parent = await this.config.client.getMessage(parentId);
+    if (!parent) {
+      return null;
+    }
 
-      if (result.enqueued) {
-        console.log(`[WEBHOOK] ✅ Queued message ${messageId}`);
-        notifyInboundEnqueued();
-      } else {
-        console.log(`[WEBHOOK] ⏭️ Skipped: ${result.reason}`);
+    const content = parent.body?.content ?? '';
+    const attachments: Attachment[] = [];
+    const downloadImage = async (imageKey: string): Promise<void> => {
+      const img = await this.config.client.downloadImage(imageKey, parentId, media.incomingDir);
+      if (img) {
+        attachments.push({ type: 'image', ...media.adopt(img, chatId) });
       }
+    };
 
-      // Notify callback
-      this.config.onMessage?.(event);
-    } catch (e) {
-      console.error('[WEBHOOK-ERROR]', e);
+    let body: string;
+    try {
+      switch (parent.msg_type) {
+        case 'text':
+          body = (JSON.parse(content) as { text?: string }).text ?? '';
+          break;
+        case 'post': {
+          const { texts, imageKeys } = this.config.client.parsePostContent(content);
+          body = texts.join(' ');
+          for (const key of imageKeys) await downloadImage(key);
+          break;
+        }
+        case 'image': {
+          const { image_key } = JSON.parse(content) as { image_key?: string };
+          if (image_key) await downloadImage(image_key);
+          body = '[Image]';
+          break;
+        }
+        case 'file':
+          body = `[File: ${(JSON.parse(content) as { file_name?: string }).file_name ?? 'unknown'}]`;
+          break;
+        case 'interactive':
+          body = cardText(content) || '[Card]';
+          break;
+        default:
+          body = `[${parent.msg_type ?? 'unknown'} message]`;
+      }
+    } catch {
+      body = `[${parent.msg_type ?? 'unknown'} message]`;
+    }
+
+    const context: ParentContext = {
+      body: body.replace(/@_user_\d+\s*/g, '').trim(),
+      sender: parent.sender?.sender_type === 'app' ? 'bot' : parent.sender?.id,
+      attachments,
+    };
+
+    if (this.parentCache.size >= PARENT_CACHE_MAX_ENTRIES) {
+      // Map iterates in insertion order: drop the oldest
+      this.parentCache.delete(this.parentCache.keys().next().value!);
     }
+    this.parentCache.set(parentId, { context, expiresAt: now + PARENT_CACHE_TTL_MS });
+    console.log(`[WEBHOOK] Reply to ${parentId} (${parent.msg_type}): ${context.body.length} chars, ${attachments.length} image(s)`);
+
+    return context;
+  }
+
+  /**
+   * Queue stats for the health endpoint
+   */
+  getQueueStats(): ReturnType<MessageQueue['getStats']> {
+    return this.config.queue.getStats();
   }
 
   /**
    * Get the underlying HTTP server
    */
+  getServer(): Server | null {
+    return this.shared?.getServer() ?? null;
+  }
+}
+
+// ─── Shared HTTP Server ──────────────────────────────────────────
+
+/**
+ * One HTTP server per bind:port, multiplexing every account's WebhookHandler.
+ * Routes by path (/lark/<accountId>/events, /lark/<accountId>/cards); the legacy
+ * single-account paths are routed by header.app_id.
+ */
+class SharedWebhookServer {
+  readonly handlers = new Map<string, WebhookHandler>();
+  private server: Server | null = null;
+  private listening: Promise<void> | null = null;
+
+  constructor(
+    readonly port: number,
+    readonly bind: string
+  ) {}
+
+  get key(): string {
+    return `${this.bind}:${this.port}`;
+  }
+
+  register(handler: WebhookHandler): void {
+    const existing = this.handlers.get(handler.accountId);
+    if (existing && existing !== handler) {
+      console.warn(`[WEBHOOK] Replacing handler for account "${handler.accountId}" on port ${this.port}`);
+    }
+    this.handlers.set(handler.accountId, handler);
+    console.log(`[WEBHOOK] Account "${handler.accountId}" → /lark/${handler.accountId}/events (port ${this.port})`);
+  }
+
+  unregister(handler: WebhookHandler): void {
+    if (this.handlers.get(handler.accountId) === handler) {
+      this.handlers.delete(handler.accountId);
+    }
+  }
+
+  isListening(): boolean {
+    return this.server !== null && this.server.listening;
+  }
+
   getServer(): Server | null {
     return this.server;
   }
+
+  /**
+   * Start listening (idempotent - concurrent callers share one attempt)
+   */
+  listen(): Promise<void> {
+    if (!this.listening) {
+      this.listening = this.doListen().catch((err) => {
+        this.listening = null;
+        this.server = null;
+        throw err;
+      });
+    }
+    return this.listening;
+  }
+
+  private doListen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server = http.createServer((req, res) => {
+        this.handleRequest(req, res).catch((err) => {
+          console.error(`[WEBHOOK] ❌ Request to ${req.url} failed:`, (err as Error).message);
+          if (!res.headersSent) {
+            res.writeHead(500);
+          }
+          if (!res.writableEnded) {
+            res.end('Internal error');
+          }
+        });
+      });
+
+      this.server.on('error', (err: NodeJS.ErrnoException) => {
+        // A port held by another process (even another instance of this plugin) would
+        // receive this account's webhooks instead - fail the start rather than share it
+        if (err.code === 'EADDRINUSE') {
+          console.error(`[WEBHOOK] ❌ Port ${this.port} is already in use by another process`);
+        }
+        reject(err);
+      });
+
+      this.server.listen(this.port, this.bind, () => {
+        console.log(`[WEBHOOK] 🚀 Listening on port ${this.port}`);
+        resolve();
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    this.listening = null;
+    return new Promise((resolve) => {
+      if (server && server.listening) {
+        server.close(() => resolve());
+      } else {
+        resolve();
+      }
+    });
+  }
+
+  /**
+   * Pick the handler for a legacy (non account-scoped) path
+   */
+  private resolveHandler(rawBody: string): WebhookHandler | undefined {
+    if (this.handlers.size <= 1) {
+      return this.handlers.values().next().value;
+    }
+
+    let parsed: { encrypt?: string; app_id?: string; header?: { app_id?: string } } | null = null;
+    try {
+      parsed = JSON.parse(rawBody);
+    } catch {
+      // Let the default handler answer with 400
+    }
+
+    if (parsed) {
+      for (const handler of this.handlers.values()) {
+        if (handler.matchesPayload(parsed)) {
+          return handler;
+        }
+      }
+    }
+
+    return this.handlers.get(DEFAULT_ACCOUNT_ID) ?? this.handlers.values().next().value;
+  }
+
+  /**
+   * Handle incoming HTTP request
+   */
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    // Health check
+    if (req.method === 'GET' && req.url === '/health') {
+      const queues: Record<string, ReturnType<WebhookHandler['getQueueStats']>> = {};
+      for (const [accountId, handler] of this.handlers) {
+        queues[accountId] = handler.getQueueStats();
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        status: 'ok',
+        version: '1.0.0',
+        guaranteedDelivery: true,
+        unlimitedRetries: true,
+        accounts: [...this.handlers.keys()],
+        queues,
+      }));
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.writeHead(404);
+      res.end('Not found');
+      return;
+    }
+
+    // Account-scoped endpoints: /lark/<accountId>/events, /lark/<accountId>/cards
+    let handler: WebhookHandler | undefined;
+    let kind: 'events' | 'cards' | null = null;
+    const scoped = /^\/lark\/([^/]+)\/(events|cards)$/.exec(req.url ?? '');
+    if (scoped) {
+      handler = this.handlers.get(decodeURIComponent(scoped[1]));
+      kind = scoped[2] as 'events' | 'cards';
+      if (!handler) {
+        res.writeHead(404);
+        res.end('Unknown account');
+        return;
+      }
+    } else if (req.url === '/lark/cards' || req.url === '/webhook/card') {
+      // Legacy card callback URLs (transition period)
+      kind = 'cards';
+    } else if (req.url === '/lark/events' || req.url === '/webhook') {
+      // Legacy message event URLs (transition period)
+      kind = 'events';
+    }
+
+    if (!kind) {
+      res.writeHead(404);
+      res.end('Not found');
+      return;
+    }
+
+    // Read body
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const rawBody = Buffer.concat(chunks).toString('utf8');
+
+    handler ??= this.resolveHandler(rawBody);
+    if (!handler) {
+      res.writeHead(404);
+      res.end('No account registered');
+      return;
+    }
+
+    if (kind === 'cards') {
+      console.log(`[WEBHOOK] Card callback received at ${req.url} (account=${handler.accountId})`);
+      await handler.handleCardRequest(req, res, rawBody);
+    } else {
+      console.log(`[WEBHOOK] Message event received at ${req.url} (account=${handler.accountId})`);
+      await handler.handleEventRequest(req, res, rawBody);
+    }
+  }
+}
+
+const sharedServers = new Map<string, SharedWebhookServer>();
+
+function acquireSharedServer(port: number, bind: string): SharedWebhookServer {
+  const key = `${bind}:${port}`;
+  let shared = sharedServers.get(key);
+  if (!shared) {
+    shared = new SharedWebhookServer(port, bind);
+    sharedServers.set(key, shared);
+  }
+  return shared;
+}
+
+async function releaseSharedServer(shared: SharedWebhookServer, handler: WebhookHandler): Promise<void> {
+  shared.unregister(handler);
+  if (shared.handlers.size === 0) {
+    if (sharedServers.get(shared.key) === shared) {
+      sharedServers.delete(shared.key);
+    }
+    await shared.close();
+    console.log(`[WEBHOOK] Stopped server on port ${shared.port} (no accounts left)`);
+  }
 }
@@ -0,0 +1,94 @@
+/**
+ * Lark WebSocket (Long Connection) Handler
+ *
+ * Receives Lark events over the long-connection channel instead of HTTP:
+ * - No inbound ports required (works behind NAT)
+ * - Connection, frame codec, ping and reconnect are handled by the SDK's WSClient
+ * - Events are handed to the same pipeline as webhook events
+ */
+
+import * as LarkSDK from '@larksuiteoapi/node-sdk';
+import type { LarkMessageEvent, LarkWebhookEvent } from './types.js';
+
+// ─── Types ───────────────────────────────────────────────────────
+
+export interface WebSocketConfig {
+  appId: string;
+  appSecret: string;
+  domain?: 'lark' | 'feishu';
+  onEvent: (event: LarkWebhookEvent) => Promise<void>;
+}
+
+type MessageReceiveData = Parameters<NonNullable<LarkSDK.EventHandles['im.message.receive_v1']>>[0];
+
+// ─── WebSocket Handler ───────────────────────────────────────────
+
+export class WebSocketHandler {
+  private config: WebSocketConfig;
+  private client: LarkSDK.WSClient | null = null;
+
+  constructor(config: WebSocketConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Check if the long connection was started (the SDK reconnects on its own)
+   */
+  isRunning(): boolean {
+    return this.client !== null;
+  }
+
+  /**
+   * Open the long connection (idempotent). A failed first attempt does not
+   * throw - the SDK keeps retrying in the background.
+   */
+  async start(): Promise<void> {
+    if (this.client) {
+      console.log('[WS] Already running');
+      return;
+    }
+
+    const dispatcher = new LarkSDK.EventDispatcher({ loggerLevel: LarkSDK.LoggerLevel.warn }).register({
+      'im.message.receive_v1': (data: MessageReceiveData) => {
+        // Acknowledge immediately (async processing), same as the webhook path
+        const event = toWebhookEvent(data);
+        console.log(`[WS] Event received: ${event.header?.event_type ?? 'unknown'}`);
+        this.config.onEvent(event).catch((e) => {
+          console.error('[WS] Event handling error:', (e as Error).message);
+        });
+      },
+    });
+
+    this.client = new LarkSDK.WSClient({
+      appId: this.config.appId,
+      appSecret: this.config.appSecret,
+      domain: this.config.domain === 'feishu' ? LarkSDK.Domain.Feishu : LarkSDK.Domain.Lark,
+    });
+    await this.client.start({ eventDispatcher: dispatcher });
+    console.log('[WS] 🚀 Long connection started');
+  }
+
+  /**
+   * Close the long connection and cancel any pending reconnect
+   */
+  async stop(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    client?.close({ force: true });
+  }
+}
+
+// ─── Event Mapping ───────────────────────────────────────────────
+
+/**
+ * The SDK dispatcher flattens header and event fields into one object; restore
+ * the schema 2.0 envelope the webhook pipeline expects.
+ */
+function toWebhookEvent(data: MessageReceiveData): LarkWebhookEvent {
+  const { event_id, event_type, create_time, token, app_id, tenant_key, sender, message } = data;
+  return {
+    schema: '2.0',
+    header: { event_id, event_type: event_type ?? 'im.message.receive_v1', create_time, token, app_id, tenant_key },
+    event: { sender, message } as LarkMessageEvent,
+  };
+}
@@ -5,6 +5,8 @@
 import { describe, it, expect } from 'vitest';
 import {
   buildCard,
+  buildStreamingCard,
+  buildReasoningPanel,
   selectMessageType,
   detectColor,
   extractTitle,
@@ -158,4 +160,59 @@ describe('Card Builder', () => {
       expect(div?.text?.content).not.toContain('# ');
     });
   });
+
+  describe('buildStreamingCard', () => {
+    it('should show a cursor and no footer while streaming', () => {
+      const card = buildStreamingCard('Half an answer', { done: false });
+
+      const div = card.elements?.find((el) => el.tag === 'div') as { text?: { content?: string } };
+      expect(div?.text?.content).toBe('Half an answer ▍');
+      expect(card.elements?.some((el) => el.tag === 'note')).toBe(false);
+      expect(card.config?.update_multi).toBe(true);
+    });
+
+    it('should build a regular reply card once done', () => {
+      const card = buildStreamingCard('The answer', { done: true, sessionKey: 'lark:oc_abc' });
+
+      const div = card.elements?.find((el) => el.tag === 'div') as { text?: { content?: string } };
+      expect(div?.text?.content).toBe('The answer');
+      expect(card.elements?.some((el) => el.tag === 'note')).toBe(true);
+      expect(card.config?.update_multi).toBe(true);
+    });
+
+    it('should expand the reasoning until the answer starts, then collapse it', () => {
+      const thinking = buildStreamingCard('', { done: false, reasoning: 'Considering options' });
+      const answering = buildStreamingCard('The', { done: false, reasoning: 'Considering options' });
+
+      expect(thinking.elements?.[0]).toMatchObject({ tag: 'collapsible_panel', expanded: true });
+      expect(answering.elements?.[0]).toMatchObject({ tag: 'collapsible_panel', expanded: false });
+    });
+  });
+
+  describe('reasoning panel', () => {
+    it('should put the reasoning in a collapsed panel above the text', () => {
+      const card = buildCard({ text: 'The answer is 42', reasoning: 'Let me think about this.' });
+
+      expect(card.elements?.[0]).toMatchObject({
+        tag: 'collapsible_panel',
+        expanded: false,
+        elements: [{ tag: 'div', text: { tag: 'lark_md', content: 'Let me think about this.' } }],
+      });
+      expect(card.elements?.[1]).toMatchObject({ tag: 'div', text: { content: 'The answer is 42' } });
+    });
+
+    it('should leave the panel out without reasoning', () => {
+      const card = buildCard({ text: 'The answer is 42', reasoning: '  ' });
+
+      expect(card.elements?.some((el) => el.tag === 'collapsible_panel')).toBe(false);
+    });
+
+    it('should truncate long reasoning', () => {
+      const panel = buildReasoningPanel('x'.repeat(20000));
+
+      const div = panel.elements[0] as { text?: { content?: string } };
+      expect(div.text?.content?.length).toBeLessThan(10100);
+      expect(div.text?.content).toContain('truncated');
+    });
+  });
 });
@@ -0,0 +1,472 @@
+/**
+ * Channel Consumer Tests
+ *
+ * Runs the inbound and outbound consumers against real queues, with a stubbed
+ * plugin runtime (agent dispatch, routing) and stubbed Lark clients.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { larkPlugin, notifyInboundEnqueued, startConsumers, stopConsumers } from '../src/channel.js';
+import { MessageQueue, getQueue, closeQueue } from '../src/queue.js';
+import { setLarkClient } from '../src/client.js';
+import type { LarkClient } from '../src/client.js';
+import { setLarkRuntime } from '../src/runtime.js';
+import type { LarkPluginRuntime } from '../src/runtime.js';
+import type { Attachment, InboundMetadata, LarkChannelConfig, LarkSendResult } from '../src/types.js';
+
+type DispatchParams = Parameters<LarkPluginRuntime['channel']['reply']['dispatchReplyWithBufferedBlockDispatcher']>[0];
+
+// Counts polls instead of reading the clock, so it also works while Date is faked
+function waitFor(check: () => boolean, timeoutMs = 3000): Promise<void> {
+  let waited = 0;
+  return new Promise((resolve, reject) => {
+    const tick = () => {
+      if (check()) return resolve();
+      if (waited > timeoutMs) return reject(new Error('waitFor timeout'));
+      waited += 10;
+      setTimeout(tick, 10);
+    };
+    tick();
+  });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** A promise with its resolve function, to hold a dispatch until the test lets it finish */
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+function fakeClient(prefix: string) {
+  let sent = 0;
+  const send = async (..._args: unknown[]): Promise<LarkSendResult> => ({ success: true, messageId: `${prefix}_${++sent}` });
+  return {
+    sendMessage: vi.fn(send),
+    replyMessage: vi.fn(send),
+    uploadImage: vi.fn(async () => ({ success: true, imageKey: 'img_1' })),
+    uploadFile: vi.fn(async () => ({ success: true, fileKey: 'file_1' })),
+    patchCard: vi.fn(async () => ({ success: true })),
+    deleteMessage: vi.fn(async () => true),
+  };
+}
+
+describe('Channel consumers', () => {
+  let dir: string;
+  let larkConfig: LarkChannelConfig;
+  let dispatch: ReturnType<typeof vi.fn<(params: DispatchParams) => Promise<{ queuedFinal?: boolean }>>>;
+  let accounts: string[];
+
+  const runtime: LarkPluginRuntime = {
+    channel: {
+      text: { chunkMarkdownText: (text) => [text] },
+      reply: {
+        dispatchReplyWithBufferedBlockDispatcher: (params) => dispatch(params),
+        finalizeInboundContext: (ctx) => ctx,
+        createReplyDispatcherWithTyping: () => ({}),
+      },
+      routing: {
+        resolveAgentRoute: ({ accountId, peer }) => ({
+          sessionKey: `agent:main:lark:${peer!.kind}:${peer!.id}`,
+          mainSessionKey: 'agent:main:main',
+          agentId: 'main',
+          accountId,
+        }),
+      },
+      session: {
+        resolveStorePath: () => null,
+        recordInboundSession: async () => {},
+      },
+    },
+    config: {
+      loadConfig: () => ({ channels: { lark: larkConfig } }),
+      writeConfigFile: async () => {},
+    },
+    logging: { shouldLogVerbose: () => false },
+  };
+
+  /** Open an account's queue (own database) and start its consumers */
+  function startAccount(
+    accountId: string,
+    options: { inboundConcurrency?: number; inboundCoalesceMs?: number } = {}
+  ): { queue: MessageQueue; client: ReturnType<typeof fakeClient> } {
+    const queue = getQueue(path.join(dir, `${accountId}.db`), accountId, { media: { dir: path.join(dir, `media-${accountId}`) } });
+    const client = fakeClient(`om_${accountId}`);
+    setLarkClient(client as unknown as LarkClient, accountId);
+    startConsumers(accountId, queue, client as unknown as LarkClient, '', 0, 'main', options.inboundConcurrency ?? 4, 4, options.inboundCoalesceMs ?? 0);
+    accounts.push(accountId);
+    return { queue, client };
+  }
+
+  /** Queue an inbound message from ou_1 and wake the account's consumer */
+  function receive(
+    queue: MessageQueue,
+    messageId: string,
+    chatId: string,
+    text: string,
+    extra: { attachments?: Attachment[]; metadata?: InboundMetadata } = {}
+  ): number {
+    const result = queue.enqueueInbound({
+      messageId,
+      chatId,
+      sessionKey: `lark:${chatId}:ou_1`,
+      messageText: text,
+      attachments: extra.attachments,
+      metadata: { chatType: 'p2p', senderOpenId: 'ou_1', ...extra.metadata },
+    });
+    notifyInboundEnqueued(queue.account);
+    return result.id!;
+  }
+
+  /** An inbound row's state, read through a separate connection */
+  function inboundRow(accountId: string, id: number): { status: string; retries: number; lease_owner: string | null } {
+    const db = new Database(path.join(dir, `${accountId}.db`), { readonly: true });
+    try {
+      return db.prepare('SELECT status, retries, lease_owner FROM inbound_queue WHERE id = ?').get(id) as
+        { status: string; retries: number; lease_owner: string | null };
+    } finally {
+      db.close();
+    }
+  }
+
+  const inboundStatus = (accountId: string, id: number): string => inboundRow(accountId, id).status;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lark-channel-'));
+    larkConfig = { blockStreaming: false };
+    dispatch = vi.fn(async () => ({}));
+    accounts = [];
+    setLarkRuntime(runtime);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    for (const accountId of accounts) {
+      await stopConsumers(accountId);
+      closeQueue(accountId);
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('inbound scheduling', () => {
+    it('should dispatch different chats concurrently', async () => {
+      const { queue } = startAccount('a');
+      const running = new Map<string, () => void>();
+      dispatch.mockImplementation(async ({ ctx }) => {
+        const hold = deferred();
+        running.set(ctx.OriginatingTo as string, hold.resolve);
+        await hold.promise;
+        return {};
+      });
+
+      const first = receive(queue, 'om_1', 'oc_1', 'hello from chat 1');
+      const second = receive(queue, 'om_2', 'oc_2', 'hello from chat 2');
+
+      // Both agent runs are in flight at the same time
+      await waitFor(() => running.size === 2);
+      expect(inboundStatus('a', first)).toBe('processing');
+      expect(inboundStatus('a', second)).toBe('processing');
+
+      running.get('oc_2')!();
+      await waitFor(() => inboundStatus('a', second) === 'completed');
+      expect(inboundStatus('a', first)).toBe('processing');
+      running.get('oc_1')!();
+      await waitFor(() => inboundStatus('a', first) === 'completed');
+    });
+
+    it('should dispatch the messages of one chat one at a time, in order', async () => {
+      const { queue } = startAccount('a');
+      const started: string[] = [];
+      const holds: Array<() => void> = [];
+      dispatch.mockImplementation(async ({ ctx }) => {
+        started.push(ctx.Body as string);
+        const hold = deferred();
+        holds.push(hold.resolve);
+        await hold.promise;
+        return {};
+      });
+
+      const ids = ['first', 'second', 'third'].map((text, i) => receive(queue, `om_${i}`, 'oc_1', text));
+
+      for (let i = 0; i < ids.length; i++) {
+        await waitFor(() => started.length === i + 1);
+        // The next message waits while this one is in flight
+        await sleep(50);
+        expect(started).toHaveLength(i + 1);
+        expect(inboundStatus('a', ids[i])).toBe('processing');
+        holds[i]();
+        await waitFor(() => inboundStatus('a', ids[i]) === 'completed');
+      }
+      expect(started).toEqual(['first', 'second', 'third']);
+    });
+
+    it('should keep the lease of a hung dispatch until the consumer is stopped', async () => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+      const { queue } = startAccount('a');
+      dispatch.mockImplementation(() => new Promise(() => {}));
+
+      const id = receive(queue, 'om_1', 'oc_1', 'never answered');
+      await waitFor(() => dispatch.mock.calls.length === 1);
+
+      // Well past the lease TTL: the heartbeat keeps renewing it
+      await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+      const other = new MessageQueue(path.join(dir, 'a.db'), 'a');
+      try {
+        expect(other.dequeueInbound(5)).toEqual([]);
+        expect(other.markInboundProcessing(id)).toBe(false);
+      } finally {
+        other.close();
+      }
+      expect(inboundStatus('a', id)).toBe('processing');
+
+      // Shutdown aborts the run and closing the queue hands the row back
+      await stopConsumers('a');
+      closeQueue('a');
+      expect(inboundStatus('a', id)).toBe('pending');
+    });
+  });
+
+  describe('inbound coalescing', () => {
+    it('should dispatch a text and an image sent in quick succession as one turn', async () => {
+      const { queue } = startAccount('a', { inboundCoalesceMs: 100 });
+      const png = Buffer.from('fake png bytes');
+      const image = queue.media.putBuffer(png, 'image/png', 'oc_1');
+
+      const text = receive(queue, 'om_1', 'oc_1', 'what is in this picture?');
+      const picture = receive(queue, 'om_2', 'oc_1', '[Image]', {
+        attachments: [{ type: 'image', path: image.path, sha256: image.sha256, mimeType: 'image/png' }],
+      });
+
+      await waitFor(() => inboundStatus('a', picture) === 'completed');
+      expect(dispatch).toHaveBeenCalledTimes(1);
+      const { ctx, replyOptions } = dispatch.mock.calls[0][0];
+      expect(ctx.Body).toBe('what is in this picture?\n[Image]');
+      expect(ctx.MessageSid).toBe('om_1');
+      expect(ctx.MediaPaths).toEqual([image.path]);
+      expect(replyOptions?.images).toEqual([{ type: 'image', data: png.toString('base64'), mimeType: 'image/png' }]);
+      expect(inboundStatus('a', text)).toBe('completed');
+    });
+
+    it('should release the follow-ups with a failed head and coalesce them again on the retry', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const { queue } = startAccount('a', { inboundCoalesceMs: 100 });
+      dispatch.mockRejectedValueOnce(new Error('agent unavailable'));
+
+      const head = receive(queue, 'om_1', 'oc_1', 'first');
+      const follower = receive(queue, 'om_2', 'oc_1', 'second');
+      // The sender has been quiet for longer than the window
+      vi.setSystemTime(Date.now() + 1000);
+      notifyInboundEnqueued('a');
+
+      await waitFor(() => inboundRow('a', head).retries === 1);
+      expect(inboundRow('a', head)).toMatchObject({ status: 'pending', lease_owner: null });
+      expect(inboundRow('a', follower)).toEqual({ status: 'pending', retries: 0, lease_owner: null });
+
+      // Past the retry backoff: both go out together again
+      vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+      notifyInboundEnqueued('a');
+      await waitFor(() => inboundStatus('a', follower) === 'completed');
+      expect(inboundStatus('a', head)).toBe('completed');
+      expect(dispatch).toHaveBeenCalledTimes(2);
+      expect(dispatch.mock.calls.map(([params]) => params.ctx.Body)).toEqual(['first\nsecond', 'first\nsecond']);
+    });
+  });
+
+  describe('reply targets', () => {
+    const cases: Array<{
+      name: string;
+      config: Partial<LarkChannelConfig>;
+      threadId?: string;
+      expected: { replyInThread: boolean } | 'new message';
+    }> = [
+      { name: 'posts to the chat by default', config: {}, expected: 'new message' },
+      { name: 'posts to the chat in new mode', config: { replyMode: 'new' }, expected: 'new message' },
+      { name: 'quotes the message in quote mode', config: { replyMode: 'quote' }, expected: { replyInThread: false } },
+      { name: 'replies in a thread in thread mode', config: { replyMode: 'thread' }, expected: { replyInThread: true } },
+      {
+        name: 'uses the group override over the account mode',
+        config: { replyMode: 'new', groups: { oc_1: { replyMode: 'quote' } } },
+        expected: { replyInThread: false },
+      },
+      {
+        name: 'lets a group opt out of thread mode',
+        config: { replyMode: 'thread', groups: { oc_1: { replyMode: 'new' } } },
+        expected: 'new message',
+      },
+      {
+        name: 'ignores overrides of other groups',
+        config: { replyMode: 'quote', groups: { oc_2: { replyMode: 'new' } } },
+        expected: { replyInThread: false },
+      },
+      { name: 'answers a thread message in its thread in new mode', config: {}, threadId: 'omt_1', expected: { replyInThread: true } },
+      {
+        name: 'answers a thread message in its thread in quote mode',
+        config: { replyMode: 'quote' },
+        threadId: 'omt_1',
+        expected: { replyInThread: true },
+      },
+    ];
+
+    it.each(cases)('$name', async ({ config, threadId, expected }) => {
+      larkConfig = { ...larkConfig, ...config };
+      const { queue, client } = startAccount('a');
+      dispatch.mockImplementation(async ({ dispatcherOptions }) => {
+        await dispatcherOptions.deliver({ text: 'the answer' }, { kind: 'final' });
+        return {};
+      });
+
+      const id = receive(queue, 'om_1', 'oc_1', 'a question', { metadata: { chatType: 'group', threadId } });
+      await waitFor(() => inboundStatus('a', id) === 'completed');
+
+      if (expected === 'new message') {
+        expect(client.replyMessage).not.toHaveBeenCalled();
+        expect(client.sendMessage).toHaveBeenCalledWith('oc_1', 'text', { text: 'the answer' }, expect.any(String));
+      } else {
+        expect(client.sendMessage).not.toHaveBeenCalled();
+        expect(client.replyMessage).toHaveBeenCalledWith(
+          'om_1', 'text', { text: 'the answer' }, { replyInThread: expected.replyInThread, uuid: expect.any(String) }
+        );
+      }
+    });
+  });
+
+  describe('thread sessions', () => {
+    const GROUP_SESSION = 'agent:main:lark:group:oc_1';
+    const THREAD_SESSION = 'agent:main:lark:group:oc_1:thread:omt_1';
+
+    const cases: Array<{
+      name: string;
+      config: Partial<LarkChannelConfig>;
+      chatType?: 'group' | 'p2p';
+      threadId?: string;
+      sessionKey: string;
+      parentSessionKey?: string;
+    }> = [
+      { name: 'keeps group messages outside threads in the group session', config: {}, sessionKey: GROUP_SESSION },
+      {
+        name: 'gives a thread its own session by default',
+        config: {},
+        threadId: 'omt_1',
+        sessionKey: THREAD_SESSION,
+        parentSessionKey: GROUP_SESSION,
+      },
+      {
+        name: 'gives a thread its own session with threadSessions on',
+        config: { threadSessions: true },
+        threadId: 'omt_1',
+        sessionKey: THREAD_SESSION,
+        parentSessionKey: GROUP_SESSION,
+      },
+      { name: 'shares the group session with threadSessions off', config: { threadSessions: false }, threadId: 'omt_1', sessionKey: GROUP_SESSION },
+      {
+        name: 'lets a group turn thread sessions off',
+        config: { threadSessions: true, groups: { oc_1: { threadSessions: false } } },
+        threadId: 'omt_1',
+        sessionKey: GROUP_SESSION,
+      },
+      {
+        name: 'lets a group turn thread sessions on',
+        config: { threadSessions: false, groups: { oc_1: { threadSessions: true } } },
+        threadId: 'omt_1',
+        sessionKey: THREAD_SESSION,
+        parentSessionKey: GROUP_SESSION,
+      },
+      { name: 'never splits a direct chat', config: {}, chatType: 'p2p', threadId: 'omt_1', sessionKey: 'agent:main:lark:dm:oc_1' },
+    ];
+
+    it.each(cases)('$name', async ({ config, chatType, threadId, sessionKey, parentSessionKey }) => {
+      larkConfig = { ...larkConfig, ...config };
+      const { queue } = startAccount('a');
+
+      const id = receive(queue, 'om_1', 'oc_1', 'hello', { metadata: { chatType: chatType ?? 'group', threadId } });
+      await waitFor(() => inboundStatus('a', id) === 'completed');
+
+      const { ctx } = dispatch.mock.calls[0][0];
+      expect(ctx.SessionKey).toBe(sessionKey);
+      expect(ctx.ParentSessionKey).toBe(parentSessionKey);
+    });
+
+    it('should give each topic of a topic group its own session', async () => {
+      const { queue } = startAccount('a');
+      // In a topic group every message belongs to a topic; replies inside one carry its root
+      const topics = [
+        { messageId: 'om_1', threadId: 'omt_1' },
+        { messageId: 'om_2', threadId: 'omt_2' },
+        { messageId: 'om_3', threadId: 'omt_1', rootId: 'om_1', parentId: 'om_1' },
+      ];
+      const ids = topics.map(({ messageId, threadId, rootId, parentId }) =>
+        receive(queue, messageId, 'oc_1', `post ${messageId}`, { metadata: { chatType: 'group', threadId, rootId, parentId } })
+      );
+      await waitFor(() => ids.every((id) => inboundStatus('a', id) === 'completed'));
+
+      const sessions = Object.fromEntries(dispatch.mock.calls.map(([{ ctx }]) => [ctx.MessageSid, ctx.SessionKey]));
+      expect(sessions).toEqual({
+        om_1: THREAD_SESSION,
+        om_2: 'agent:main:lark:group:oc_1:thread:omt_2',
+        om_3: THREAD_SESSION,
+      });
+      expect(dispatch.mock.calls.every(([{ ctx }]) => ctx.ParentSessionKey === GROUP_SESSION)).toBe(true);
+    });
+  });
+
+  describe('outbound delivery', () => {
+    it('should report each account its own send when row ids collide', async () => {
+      startAccount('a');
+      const b = startAccount('b');
+      b.client.sendMessage.mockImplementation(async () => {
+        await sleep(50);
+        return { success: true, messageId: 'om_b_slow' };
+      });
+
+      const [resultA, resultB] = await Promise.all([
+        larkPlugin.outbound.sendText({ to: 'oc_1', text: 'hello from a', accountId: 'a' }),
+        larkPlugin.outbound.sendText({ to: 'oc_1', text: 'hello from b', accountId: 'b' }),
+      ]);
+
+      expect(resultA.outboundId).toBe(resultB.outboundId);
+      expect(resultA.messageId).toBe('om_a_1');
+      expect(resultB.messageId).toBe('om_b_slow');
+    });
+
+    it('should reuse the uploaded file when retrying a failed send', async () => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'Date'] });
+      const { queue, client } = startAccount('a');
+      let fileSends = 0;
+      client.sendMessage.mockImplementation(async (_chatId, msgType) => {
+        if (msgType === 'file' && ++fileSends === 1) {
+          return { success: false, error: 'request timeout' };
+        }
+        return { success: true, messageId: `om_${msgType}_${client.sendMessage.mock.calls.length}` };
+      });
+
+      const sending = larkPlugin.outbound.sendMedia({
+        to: 'oc_1',
+        text: 'Quarterly report',
+        mediaUrl: `data:application/pdf;base64,${Buffer.from('%PDF-1.4').toString('base64')}`,
+        accountId: 'a',
+      });
+      await waitFor(() => queue.getOutbound(1)?.retries === 1);
+      const row = queue.getOutbound(1)!;
+      expect(row).toMatchObject({ status: 'pending', upload_key: 'file_1', upload_type: 'file' });
+
+      // The fallback poll picks the row up again once its backoff has passed
+      await vi.advanceTimersByTimeAsync(10_000);
+      const result = await sending;
+
+      expect(result.messageId).toBe('om_file_4');
+      expect(client.uploadFile).toHaveBeenCalledTimes(1);
+      // Both attempts send the caption under the same uuid, so Lark keeps only one
+      expect(client.sendMessage.mock.calls.map(([, msgType, content, uuid]) => [msgType, content, uuid])).toEqual([
+        ['interactive', expect.anything(), `${row.lark_uuid}-caption`],
+        ['file', { file_key: 'file_1' }, row.lark_uuid],
+        ['interactive', expect.anything(), `${row.lark_uuid}-caption`],
+        ['file', { file_key: 'file_1' }, row.lark_uuid],
+      ]);
+    });
+  });
+});
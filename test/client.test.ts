@@ -0,0 +1,156 @@
+/**
+ * Lark Client Tests
+ *
+ * Media downloads are streamed to disk with a size limit; outbound media is
+ * loaded from URLs, paths and data: URLs and mapped to Lark file types.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { saveResponseToFile, loadMedia, larkFileType } from '../src/client.js';
+
+function chunkedResponse(chunks: Buffer[], headers: Record<string, string> = {}): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(new Uint8Array(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers });
+}
+
+describe('saveResponseToFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lark-media-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should stream the body to the destination and hash it', async () => {
+    const parts = [Buffer.from('hello '), Buffer.from('world')];
+
+    const saved = await saveResponseToFile(chunkedResponse(parts), dir, 'greeting.txt');
+
+    expect(saved.path).toBe(path.join(dir, 'greeting.txt'));
+    expect(saved.size).toBe(11);
+    expect(saved.sha256).toBe(crypto.createHash('sha256').update('hello world').digest('hex'));
+    expect(fs.readFileSync(saved.path, 'utf8')).toBe('hello world');
+    expect(fs.readdirSync(dir)).toEqual(['greeting.txt']);
+  });
+
+  it('should reject an oversized Content-Length before reading the body', async () => {
+    const res = chunkedResponse([Buffer.alloc(4)], { 'content-length': '2048' });
+
+    await expect(saveResponseToFile(res, dir, 'big.bin', 1024)).rejects.toThrow('too large');
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('should abort and remove the temp file when the stream exceeds the limit', async () => {
+    const res = chunkedResponse([Buffer.alloc(600), Buffer.alloc(600)]);
+
+    await expect(saveResponseToFile(res, dir, 'big.bin', 1024)).rejects.toThrow('too large');
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+});
+
+describe('loadMedia', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lark-outbound-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should decode base64 data: URLs', async () => {
+    const media = await loadMedia(`data:application/pdf;base64,${Buffer.from('%PDF-1.7').toString('base64')}`);
+
+    expect(media.buffer.toString()).toBe('%PDF-1.7');
+    expect(media.mimeType).toBe('application/pdf');
+    expect(media.fileName).toBe('file.pdf');
+  });
+
+  it('should read local paths and file:// URLs with the mime type of the extension', async () => {
+    const filePath = path.join(dir, 'report.csv');
+    fs.writeFileSync(filePath, 'a,b\n1,2\n');
+
+    for (const url of [filePath, `file://${filePath}`]) {
+      const media = await loadMedia(url, undefined, [dir]);
+      expect(media.buffer.toString()).toBe('a,b\n1,2\n');
+      expect(media.mimeType).toBe('text/csv');
+      expect(media.fileName).toBe('report.csv');
+    }
+  });
+
+  it('should reject files over the size limit', async () => {
+    const filePath = path.join(dir, 'big.bin');
+    fs.writeFileSync(filePath, Buffer.alloc(2048));
+
+    await expect(loadMedia(filePath, 1024, [dir])).rejects.toThrow('too large');
+  });
+
+  it('should stop reading a download without Content-Length once it exceeds the limit', async () => {
+    // Chunked body that never ends: only a running cap can reject it
+    const timers = new Set<NodeJS.Timeout>();
+    const server = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'image/png' });
+      const timer = setInterval(() => res.write(Buffer.alloc(512)), 5);
+      timers.add(timer);
+      res.on('close', () => clearInterval(timer));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      await expect(loadMedia(`http://127.0.0.1:${port}/big.png`, 2048)).rejects.toThrow('too large');
+    } finally {
+      for (const timer of timers) clearInterval(timer);
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it('should only read local files inside the allowed directories', async () => {
+    const allowed = path.join(dir, 'allowed');
+    fs.mkdirSync(allowed);
+    const secret = path.join(dir, 'secret.txt');
+    fs.writeFileSync(secret, 'token');
+
+    await expect(loadMedia(secret)).rejects.toThrow('not allowed');
+    await expect(loadMedia(`file://${secret}`, undefined, [allowed])).rejects.toThrow('not allowed');
+    await expect(loadMedia(path.join(allowed, '..', 'secret.txt'), undefined, [allowed])).rejects.toThrow('not allowed');
+  });
+
+  it('should not follow symlinks out of the allowed directories', async () => {
+    const allowed = path.join(dir, 'allowed');
+    fs.mkdirSync(allowed);
+    fs.writeFileSync(path.join(dir, 'secret.txt'), 'token');
+    fs.symlinkSync(path.join(dir, 'secret.txt'), path.join(allowed, 'link.txt'));
+
+    await expect(loadMedia(path.join(allowed, 'link.txt'), undefined, [allowed])).rejects.toThrow('not allowed');
+  });
+});
+
+describe('larkFileType', () => {
+  it('should map mime types to Lark upload types', () => {
+    expect(larkFileType('audio/ogg')).toBe('opus');
+    expect(larkFileType('video/mp4')).toBe('mp4');
+    expect(larkFileType('application/pdf')).toBe('pdf');
+    expect(larkFileType('application/vnd.openxmlformats-officedocument.wordprocessingml.document')).toBe('doc');
+    expect(larkFileType('application/vnd.ms-excel')).toBe('xls');
+    expect(larkFileType('application/vnd.ms-powerpoint')).toBe('ppt');
+    expect(larkFileType('audio/mpeg')).toBe('stream');
+    expect(larkFileType('text/csv')).toBe('stream');
+  });
+});
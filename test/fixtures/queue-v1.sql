@@ -0,0 +1,68 @@
+-- Queue database as written by the first release (schema v1, before user_version
+-- was tracked). Used by test/migrations.test.ts to check in-place upgrades.
+
+CREATE TABLE outbound_queue (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  queue_type TEXT NOT NULL,
+  run_id TEXT,
+  session_key TEXT NOT NULL,
+  chat_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  status TEXT DEFAULT 'pending',
+  retries INTEGER DEFAULT 0,
+  next_retry_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  completed_at INTEGER,
+  lark_message_id TEXT,
+  last_error TEXT
+);
+
+CREATE INDEX idx_outbound_status ON outbound_queue(status, next_retry_at);
+CREATE INDEX idx_outbound_hash ON outbound_queue(content_hash, chat_id, created_at);
+
+CREATE TABLE inbound_queue (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  message_id TEXT NOT NULL UNIQUE,
+  chat_id TEXT NOT NULL,
+  session_key TEXT NOT NULL,
+  message_text TEXT NOT NULL,
+  attachments_json TEXT,
+  status TEXT DEFAULT 'pending',
+  retries INTEGER DEFAULT 0,
+  next_retry_at INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  completed_at INTEGER,
+  response_text TEXT,
+  last_error TEXT
+);
+
+CREATE INDEX idx_inbound_status ON inbound_queue(status, next_retry_at);
+CREATE INDEX idx_inbound_msgid ON inbound_queue(message_id);
+
+CREATE TABLE sent_messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  content_hash TEXT NOT NULL,
+  chat_id TEXT NOT NULL,
+  lark_message_id TEXT,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX idx_sent_hash ON sent_messages(content_hash, chat_id, created_at);
+
+INSERT INTO inbound_queue (message_id, chat_id, session_key, message_text, status, created_at, updated_at, completed_at)
+VALUES ('om_done', 'oc_abc', 'lark:oc_abc', 'Answered already', 'completed', 1000, 1000, 1000);
+
+INSERT INTO inbound_queue (message_id, chat_id, session_key, message_text, status, retries, created_at, updated_at)
+VALUES ('om_waiting', 'oc_abc', 'lark:oc_abc', 'Still queued', 'pending', 2, 2000, 2000);
+
+INSERT INTO outbound_queue (queue_type, run_id, session_key, chat_id, content, content_hash, status, created_at, updated_at, completed_at, lark_message_id)
+VALUES ('reply', 'om_done', 'lark:oc_abc', 'oc_abc', 'Sent reply', 'hash_sent', 'completed', 1000, 1000, 1000, 'om_bot_1');
+
+INSERT INTO outbound_queue (queue_type, run_id, session_key, chat_id, content, content_hash, status, retries, created_at, updated_at)
+VALUES ('reply', 'om_waiting', 'lark:oc_abc', 'oc_abc', 'Unsent reply', 'hash_unsent', 'pending', 3, 2000, 2000);
+
+INSERT INTO sent_messages (content_hash, chat_id, lark_message_id, created_at)
+VALUES ('hash_sent', 'oc_abc', 'om_bot_1', 1000);
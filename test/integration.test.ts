@@ -114,6 +114,7 @@ describe('Integration Tests', () => {
         sessionKey: 'lark:oc_chat',
         chatId: 'oc_chat',
         content: 'Dedup test message',
+        dedupByContent: true,
       });
       expect(first.enqueued).toBe(true);
 
@@ -122,6 +123,7 @@ describe('Integration Tests', () => {
         sessionKey: 'lark:oc_chat',
         chatId: 'oc_chat',
         content: 'Dedup test message',
+        dedupByContent: true,
       });
       expect(duplicate.enqueued).toBe(false);
       expect(duplicate.reason).toBe('duplicate_pending');
@@ -131,6 +133,7 @@ describe('Integration Tests', () => {
         sessionKey: 'lark:oc_other_chat',
         chatId: 'oc_other_chat',
         content: 'Dedup test message',
+        dedupByContent: true,
       });
       expect(differentChat.enqueued).toBe(true);
     });
@@ -0,0 +1,186 @@
+/**
+ * Media Store Tests
+ *
+ * Content addressing, quotas with LRU eviction, and pinning by pending rows.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { pathToFileURL } from 'node:url';
+import { MessageQueue } from '../src/queue.js';
+
+const TEST_DB_PATH = path.join(os.tmpdir(), `lark-media-test-${Date.now()}.db`);
+
+function bytes(size: number, fill: string): Buffer {
+  return Buffer.alloc(size, fill);
+}
+
+describe('MediaStore', () => {
+  let dir: string;
+  let queue: MessageQueue;
+
+  function openQueue(maxTotalBytes = 0, maxChatBytes = 0): MessageQueue {
+    return new MessageQueue(TEST_DB_PATH, 'default', { media: { dir, maxTotalBytes, maxChatBytes } });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(1_700_000_000_000);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lark-media-'));
+    queue = openQueue();
+  });
+
+  afterEach(() => {
+    queue.close();
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+    for (const suffix of ['', '-wal', '-shm']) {
+      try { fs.unlinkSync(`${TEST_DB_PATH}${suffix}`); } catch { /* ignore */ }
+    }
+  });
+
+  it('should store identical content once', () => {
+    const first = queue.media.putBuffer(bytes(100, 'a'), 'image/png', 'oc_1');
+    const second = queue.media.putBuffer(bytes(100, 'a'), 'image/png', 'oc_2');
+
+    expect(second.path).toBe(first.path);
+    expect(first.path).toBe(path.join(dir, first.sha256.slice(0, 2), `${first.sha256}.png`));
+    expect(queue.media.getUsage()).toEqual({ totalBytes: 100, files: 1 });
+  });
+
+  it('should adopt a downloaded file and drop a duplicate download', () => {
+    const stored = queue.media.putBuffer(bytes(10, 'x'), 'application/pdf', 'oc_1', 'report.pdf');
+
+    fs.mkdirSync(queue.media.incomingDir, { recursive: true });
+    const download = path.join(queue.media.incomingDir, 'report_1.pdf');
+    fs.writeFileSync(download, bytes(10, 'x'));
+
+    const adopted = queue.media.adopt({ path: download, sha256: stored.sha256, size: 10, mimeType: 'application/pdf' }, 'oc_2');
+
+    expect(adopted.path).toBe(stored.path);
+    expect(fs.existsSync(download)).toBe(false);
+  });
+
+  it('should evict least recently used files over the total quota', () => {
+    queue.close();
+    queue = openQueue(250);
+
+    const old = queue.media.putBuffer(bytes(100, 'a'), 'image/png', 'oc_1');
+    vi.advanceTimersByTime(1000);
+    const used = queue.media.putBuffer(bytes(100, 'b'), 'image/png', 'oc_1');
+    vi.advanceTimersByTime(1000);
+    const recent = queue.media.putBuffer(bytes(100, 'c'), 'image/png', 'oc_1');
+    vi.advanceTimersByTime(1000);
+    queue.media.touch(old.sha256);
+
+    expect(queue.media.evict().deleted).toBe(1);
+    expect(fs.existsSync(used.path)).toBe(false);
+    expect(fs.existsSync(old.path)).toBe(true);
+    expect(fs.existsSync(recent.path)).toBe(true);
+  });
+
+  it('should never evict files referenced by pending inbound messages', () => {
+    queue.close();
+    queue = openQueue(50);
+
+    const pinned = queue.media.putBuffer(bytes(100, 'a'), 'image/png', 'oc_1');
+    queue.enqueueInbound({
+      messageId: 'om_1',
+      chatId: 'oc_1',
+      sessionKey: 'lark:oc_1',
+      messageText: '[User sent an image]',
+      attachments: [{ type: 'image', ...pinned }],
+    });
+
+    expect(queue.media.evict().deleted).toBe(0);
+    expect(fs.existsSync(pinned.path)).toBe(true);
+
+    // Once dispatched, the file is fair game
+    const [msg] = queue.dequeueInbound(1);
+    queue.markInboundProcessing(msg.id);
+    queue.markInboundCompleted(msg.id, 'Done');
+    expect(queue.media.evict().deleted).toBe(1);
+    expect(fs.existsSync(pinned.path)).toBe(false);
+  });
+
+  it('should never evict files an unsent outbound message refers to', () => {
+    queue.close();
+    queue = openQueue(50);
+
+    const reply = queue.media.putBuffer(bytes(100, 'a'), 'application/pdf', 'oc_1', 'report.pdf');
+    const { id } = queue.enqueueOutbound('reply', {
+      sessionKey: 'lark:oc_1',
+      chatId: 'oc_1',
+      content: '',
+      payloadType: 'file',
+      media: { url: reply.path, fileName: 'report.pdf' },
+    });
+
+    expect(queue.media.evict().deleted).toBe(0);
+
+    // Uploaded: retries reuse the file_key, the local copy is no longer needed
+    queue.setOutboundUpload(id!, 'file_v3_abc', 'file');
+    expect(queue.media.evict().deleted).toBe(1);
+  });
+
+  it('should pin files an outbound message refers to by file:// URL or ~/ path', () => {
+    queue.close();
+    queue = openQueue(50);
+
+    const image = queue.media.putBuffer(bytes(100, 'a'), 'image/png', 'oc_1');
+    const report = queue.media.putBuffer(bytes(100, 'b'), 'application/pdf', 'oc_1', 'report.pdf');
+    const imageRow = queue.enqueueOutbound('reply', {
+      sessionKey: 'lark:oc_1',
+      chatId: 'oc_1',
+      content: '',
+      payloadType: 'image',
+      media: { url: pathToFileURL(image.path).href },
+    });
+    const reportRow = queue.enqueueOutbound('reply', {
+      sessionKey: 'lark:oc_1',
+      chatId: 'oc_1',
+      content: '',
+      payloadType: 'file',
+      media: { url: `~/${path.relative(os.homedir(), report.path)}`, fileName: 'report.pdf' },
+    });
+
+    expect(JSON.parse(queue.getOutbound(imageRow.id!)!.media_json!).url).toBe(image.path);
+    expect(JSON.parse(queue.getOutbound(reportRow.id!)!.media_json!).url).toBe(report.path);
+    expect(queue.media.evict().deleted).toBe(0);
+  });
+
+  it('should enforce per-chat quotas without deleting files other chats use', () => {
+    queue.close();
+    queue = openQueue(0, 150);
+
+    const shared = queue.media.putBuffer(bytes(100, 'a'), 'image/png', 'oc_busy');
+    queue.media.putBuffer(bytes(100, 'a'), 'image/png', 'oc_quiet');
+    vi.advanceTimersByTime(1000);
+    const own = queue.media.putBuffer(bytes(100, 'b'), 'image/png', 'oc_busy');
+
+    // Over quota: the busy chat drops its oldest reference, the file stays for oc_quiet
+    expect(queue.media.evict().deleted).toBe(0);
+    expect(fs.existsSync(shared.path)).toBe(true);
+    expect(fs.existsSync(own.path)).toBe(true);
+
+    // Over quota again: this time the oldest file is only used by the busy chat
+    vi.advanceTimersByTime(1000);
+    const another = queue.media.putBuffer(bytes(100, 'c'), 'image/png', 'oc_busy');
+    expect(queue.media.evict().deleted).toBe(1);
+    expect(fs.existsSync(own.path)).toBe(false);
+    expect(fs.existsSync(another.path)).toBe(true);
+  });
+
+  it('should expire files unused for longer than the TTL', () => {
+    const stale = queue.media.putBuffer(bytes(10, 'a'), 'image/png', 'oc_1');
+    vi.advanceTimersByTime(31 * 24 * 60 * 60 * 1000);
+    const fresh = queue.media.putBuffer(bytes(10, 'b'), 'image/png', 'oc_1');
+
+    queue.media.evict();
+
+    expect(fs.existsSync(stale.path)).toBe(false);
+    expect(fs.existsSync(fresh.path)).toBe(true);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Schema Migration Tests
+ *
+ * Opens a v1 queue database fixture and upgrades it in place.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import crypto from 'node:crypto';
+import Database from 'better-sqlite3';
+import { MessageQueue } from '../src/queue.js';
+import { MIGRATIONS, SCHEMA_VERSION, runMigrations } from '../src/migrations.js';
+
+const DB_PATH = path.join(os.tmpdir(), `lark-queue-migrate-${Date.now()}.db`);
+const V1_FIXTURE = fs.readFileSync(path.join(__dirname, 'fixtures', 'queue-v1.sql'), 'utf8');
+
+function removeDb(): void {
+  for (const file of fs.readdirSync(os.tmpdir())) {
+    if (file.startsWith(path.basename(DB_PATH))) {
+      fs.rmSync(path.join(os.tmpdir(), file), { force: true, recursive: true });
+    }
+  }
+}
+
+function createV1Database(userVersion = 0): void {
+  const db = new Database(DB_PATH);
+  db.exec(V1_FIXTURE);
+  db.pragma(`user_version = ${userVersion}`);
+  db.close();
+}
+
+function columns(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map((c) => c.name);
+}
+
+describe('Schema Migrations', () => {
+  beforeEach(removeDb);
+  afterEach(removeDb);
+
+  it('should create a fresh database at the latest version without a backup', () => {
+    const queue = new MessageQueue(DB_PATH);
+    queue.close();
+
+    const db = new Database(DB_PATH);
+    expect(db.pragma('user_version', { simple: true })).toBe(SCHEMA_VERSION);
+    db.close();
+    expect(fs.existsSync(`${DB_PATH}.v0.bak`)).toBe(false);
+  });
+
+  it('should upgrade a v1 database in place and keep its rows', () => {
+    createV1Database();
+
+    const db = new Database(DB_PATH);
+    expect(runMigrations(db, DB_PATH)).toBe(0);
+
+    expect(db.pragma('user_version', { simple: true })).toBe(SCHEMA_VERSION);
+    expect(columns(db, 'inbound_queue')).toEqual(expect.arrayContaining(['account_id', 'lease_owner', 'lease_expires_at']));
+    expect(columns(db, 'outbound_queue')).toEqual(expect.arrayContaining(['account_id', 'lark_uuid', 'idempotency_key']));
+    expect(columns(db, 'sent_messages')).toContain('account_id');
+
+    const inbound = db.prepare('SELECT message_id, account_id, status, retries FROM inbound_queue ORDER BY id').all();
+    expect(inbound).toEqual([
+      { message_id: 'om_done', account_id: 'default', status: 'completed', retries: 0 },
+      { message_id: 'om_waiting', account_id: 'default', status: 'pending', retries: 2 },
+    ]);
+
+    // Only undelivered rows need a message-create uuid
+    const outbound = db.prepare('SELECT status, lark_uuid FROM outbound_queue ORDER BY id').all() as Array<{ status: string; lark_uuid: string | null }>;
+    expect(outbound[0].lark_uuid).toBeNull();
+    expect(outbound[1].lark_uuid).toMatch(/^[0-9a-f]{32}$/);
+
+    // The column-level UNIQUE(message_id) is gone
+    db.prepare(`
+      INSERT INTO inbound_queue (account_id, message_id, chat_id, session_key, message_text, created_at, updated_at)
+      VALUES ('team', 'om_waiting', 'oc_abc', 'lark:oc_abc', 'Same message, other bot', 3000, 3000)
+    `).run();
+    db.close();
+  });
+
+  it('should move base64 attachments out of the database', () => {
+    createV1Database();
+    const mediaDir = `${DB_PATH}-media`;
+    fs.mkdirSync(mediaDir);
+    const png = Buffer.from('fake png bytes');
+    const savedPath = path.join(mediaDir, 'image_om_saved.png');
+    fs.writeFileSync(savedPath, png);
+
+    const db = new Database(DB_PATH);
+    const attachments = [
+      { type: 'image', content: png.toString('base64'), path: savedPath, mimeType: 'image/png' },
+      { type: 'image', content: png.toString('base64'), path: '/nonexistent/lost.png', mimeType: 'image/png' },
+      { type: 'file', path: '/tmp/report.pdf', mimeType: 'application/pdf', fileName: 'report.pdf' },
+    ];
+    db.prepare('UPDATE inbound_queue SET attachments_json = ? WHERE message_id = ?').run(JSON.stringify(attachments), 'om_waiting');
+
+    runMigrations(db, DB_PATH, { mediaDir });
+
+    const row = db.prepare('SELECT attachments_json FROM inbound_queue WHERE message_id = ?').get('om_waiting') as { attachments_json: string };
+    db.close();
+    expect(row.attachments_json).not.toContain('"content"');
+
+    const [kept, restored, file] = JSON.parse(row.attachments_json);
+    const digest = crypto.createHash('sha256').update(png).digest('hex');
+    expect(kept).toEqual({ type: 'image', path: savedPath, sha256: digest, size: png.byteLength, mimeType: 'image/png' });
+    expect(restored.path.startsWith(mediaDir)).toBe(true);
+    expect(restored.sha256).toBe(digest);
+    expect(fs.readFileSync(restored.path)).toEqual(png);
+    expect(file).toEqual(attachments[2]);
+  });
+
+  it('should index externalized attachments in the media store', () => {
+    createV1Database();
+    const mediaDir = `${DB_PATH}-media`;
+    const png = Buffer.from('fake png bytes');
+    const outside = `${DB_PATH}-outside.png`;
+    fs.writeFileSync(outside, png);
+
+    const db = new Database(DB_PATH);
+    const attachments = [
+      { type: 'image', content: png.toString('base64'), mimeType: 'image/png' },
+      { type: 'image', path: outside, sha256: 'outside', size: png.byteLength, mimeType: 'image/png' },
+    ];
+    db.prepare('UPDATE inbound_queue SET attachments_json = ? WHERE message_id = ?').run(JSON.stringify(attachments), 'om_waiting');
+
+    runMigrations(db, DB_PATH, { mediaDir });
+
+    const [migrated] = JSON.parse((db.prepare('SELECT attachments_json FROM inbound_queue WHERE message_id = ?')
+      .get('om_waiting') as { attachments_json: string }).attachments_json);
+    const files = db.prepare('SELECT sha256, path, size, mime_type FROM media_files').all();
+    const refs = db.prepare('SELECT sha256, account_id, chat_id FROM media_refs').all();
+    db.close();
+
+    expect(path.basename(migrated.path)).toMatch(/^migrated_om_waiting_0\.png$/);
+    // Files outside the media directory are not the store's to evict
+    expect(files).toEqual([{ sha256: migrated.sha256, path: migrated.path, size: png.byteLength, mime_type: 'image/png' }]);
+    expect(refs).toEqual([{ sha256: migrated.sha256, account_id: 'default', chat_id: 'oc_abc' }]);
+  });
+
+  it('should back up the database before migrating', () => {
+    createV1Database(1);
+
+    const db = new Database(DB_PATH);
+    runMigrations(db, DB_PATH);
+    db.close();
+
+    const backup = new Database(`${DB_PATH}.v1.bak`, { readonly: true });
+    expect(backup.pragma('user_version', { simple: true })).toBe(1);
+    expect(columns(backup, 'inbound_queue')).not.toContain('account_id');
+    expect(backup.prepare('SELECT COUNT(*) AS n FROM inbound_queue').get()).toEqual({ n: 2 });
+    backup.close();
+  });
+
+  it('should serve queued v1 messages after the upgrade', () => {
+    createV1Database();
+
+    const queue = new MessageQueue(DB_PATH);
+    try {
+      expect(queue.dequeueInbound(10).map((m) => m.message_id)).toEqual(['om_waiting']);
+      expect(queue.dequeueOutbound(10).map((m) => m.content)).toEqual(['Unsent reply']);
+    } finally {
+      queue.close();
+    }
+  });
+
+  it('should not migrate or back up an up-to-date database again', () => {
+    new MessageQueue(DB_PATH).close();
+
+    const db = new Database(DB_PATH);
+    expect(runMigrations(db, DB_PATH)).toBe(SCHEMA_VERSION);
+    db.close();
+    expect(fs.readdirSync(os.tmpdir()).some((f) => f.startsWith(path.basename(DB_PATH)) && f.endsWith('.bak'))).toBe(false);
+  });
+
+  it('should roll back a failing migration and keep the previous version', () => {
+    createV1Database(1);
+
+    const db = new Database(DB_PATH);
+    const failing = [
+      ...MIGRATIONS.slice(0, 2),
+      {
+        version: 3,
+        description: 'broken',
+        up: (conn: Database.Database) => {
+          conn.exec('ALTER TABLE outbound_queue ADD COLUMN half_done TEXT');
+          throw new Error('boom');
+        },
+      },
+    ];
+
+    expect(() => runMigrations(db, DB_PATH, { migrations: failing })).toThrow('boom');
+    expect(db.pragma('user_version', { simple: true })).toBe(2);
+    expect(columns(db, 'outbound_queue')).not.toContain('half_done');
+    expect(columns(db, 'processed_events')).toContain('event_id');
+    db.close();
+  });
+
+  it('should leave a database from a newer release untouched', () => {
+    createV1Database(SCHEMA_VERSION + 1);
+
+    const db = new Database(DB_PATH);
+    expect(runMigrations(db, DB_PATH)).toBe(SCHEMA_VERSION + 1);
+    expect(columns(db, 'inbound_queue')).not.toContain('account_id');
+    db.close();
+  });
+});
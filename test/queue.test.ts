@@ -4,10 +4,11 @@
  * Tests for the SQLite-based message queue with guaranteed delivery.
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
+import Database from 'better-sqlite3';
 import { MessageQueue } from '../src/queue.js';
 
 // Test database path
@@ -88,8 +89,8 @@ describe('MessageQueue', () => {
 
       queue.enqueueInbound({
         messageId: 'msg_2',
-        chatId: 'oc_abc',
-        sessionKey: 'lark:oc_abc',
+        chatId: 'oc_def',
+        sessionKey: 'lark:oc_def',
         messageText: 'Message 2',
         attachments: null,
       });
@@ -101,6 +102,23 @@ describe('MessageQueue', () => {
       expect(messages[1].message_text).toBe('Message 2');
     });
 
+    it('should serialize messages within one chat', () => {
+      const first = queue.enqueueInbound({ messageId: 'msg_1', chatId: 'oc_abc', sessionKey: 'lark:oc_abc', messageText: 'First' });
+      queue.enqueueInbound({ messageId: 'msg_2', chatId: 'oc_abc', sessionKey: 'lark:oc_abc', messageText: 'Second' });
+
+      expect(queue.dequeueInbound(10).map((m) => m.message_text)).toEqual(['First']);
+
+      // Still blocked while the first one runs or waits for a retry
+      queue.markInboundProcessing(first.id!);
+      expect(queue.dequeueInbound(10)).toHaveLength(0);
+      queue.markInboundRetry(first.id!, 'agent error');
+      expect(queue.dequeueInbound(10)).toHaveLength(0);
+
+      queue.markInboundProcessing(first.id!);
+      queue.markInboundCompleted(first.id!, 'delivered');
+      expect(queue.dequeueInbound(10).map((m) => m.message_text)).toEqual(['Second']);
+    });
+
     it('should mark messages as completed', () => {
       const { id } = queue.enqueueInbound({
         messageId: 'msg_123',
@@ -154,6 +172,22 @@ describe('MessageQueue', () => {
       const attachments = JSON.parse(messages[0].attachments_json!);
       expect(attachments[0].mimeType).toBe('image/png');
     });
+
+    it('should find the latest message of a thread', () => {
+      for (const [messageId, threadId] of [['om_1', 'omt_a'], ['om_2', 'omt_b'], ['om_3', 'omt_a'], ['om_4', undefined]]) {
+        queue.enqueueInbound({
+          messageId: messageId!,
+          chatId: 'oc_abc',
+          sessionKey: 'lark:oc_abc',
+          messageText: 'Hi',
+          metadata: { chatType: 'group', threadId },
+        });
+      }
+
+      expect(queue.getLatestThreadMessageId('oc_abc', 'omt_a')).toBe('om_3');
+      expect(queue.getLatestThreadMessageId('oc_abc', 'omt_b')).toBe('om_2');
+      expect(queue.getLatestThreadMessageId('oc_other', 'omt_a')).toBeUndefined();
+    });
   });
 
   describe('Outbound Queue', () => {
@@ -169,12 +203,13 @@ describe('MessageQueue', () => {
       expect(result.id).toBeDefined();
     });
 
-    it('should reject duplicate content within dedup window', () => {
-      queue.enqueueOutbound('reply', {
+    it('should reject duplicate content within dedup window when opted in', () => {
+      const first = queue.enqueueOutbound('reply', {
         runId: 'run_1',
         sessionKey: 'lark:oc_abc',
         chatId: 'oc_abc',
         content: 'Same content',
+        dedupByContent: true,
       });
 
       const result = queue.enqueueOutbound('reply', {
@@ -182,10 +217,60 @@ describe('MessageQueue', () => {
         sessionKey: 'lark:oc_abc',
         chatId: 'oc_abc',
         content: 'Same content', // Same content
+        dedupByContent: true,
       });
 
       expect(result.enqueued).toBe(false);
       expect(result.reason).toBe('duplicate_pending');
+      expect(result.id).toBe(first.id);
+    });
+
+    it('should allow repeated content by default', () => {
+      const first = queue.enqueueOutbound('reply', { sessionKey: 'lark:oc_abc', chatId: 'oc_abc', content: 'Done ✅' });
+      queue.markOutboundProcessing(first.id!);
+      queue.markOutboundCompleted(first.id!, 'lark_msg_done');
+
+      const again = queue.enqueueOutbound('reply', { sessionKey: 'lark:oc_abc', chatId: 'oc_abc', content: 'Done ✅' });
+
+      expect(again.enqueued).toBe(true);
+      expect(again.id).not.toBe(first.id);
+    });
+
+    it('should dedup on idempotency key and return the original row', () => {
+      const first = queue.enqueueOutbound('reply', {
+        sessionKey: 'lark:oc_abc',
+        chatId: 'oc_abc',
+        content: 'Block 0',
+        idempotencyKey: 'run_1:0',
+      });
+
+      const pending = queue.enqueueOutbound('reply', {
+        sessionKey: 'lark:oc_abc',
+        chatId: 'oc_abc',
+        content: 'Block 0 (rephrased)',
+        idempotencyKey: 'run_1:0',
+      });
+      expect(pending).toMatchObject({ enqueued: false, reason: 'duplicate_key', id: first.id, existing: 'pending' });
+
+      queue.markOutboundProcessing(first.id!);
+      queue.markOutboundCompleted(first.id!, 'lark_msg_block0');
+
+      const sent = queue.enqueueOutbound('reply', {
+        sessionKey: 'lark:oc_abc',
+        chatId: 'oc_abc',
+        content: 'Block 0',
+        idempotencyKey: 'run_1:0',
+      });
+      expect(sent).toMatchObject({ enqueued: false, id: first.id, existing: 'completed', larkMessageId: 'lark_msg_block0' });
+
+      // A different key with the same content is a new message
+      const next = queue.enqueueOutbound('reply', {
+        sessionKey: 'lark:oc_abc',
+        chatId: 'oc_abc',
+        content: 'Block 0',
+        idempotencyKey: 'run_2:0',
+      });
+      expect(next.enqueued).toBe(true);
     });
 
     it('should allow same content to different chats', () => {
@@ -230,6 +315,7 @@ describe('MessageQueue', () => {
         sessionKey: 'lark:oc_abc',
         chatId: 'oc_abc',
         content: 'Test message completed',
+        dedupByContent: true,
       });
 
       queue.markOutboundProcessing(id!);
@@ -240,11 +326,482 @@ describe('MessageQueue', () => {
         sessionKey: 'lark:oc_abc',
         chatId: 'oc_abc',
         content: 'Test message completed',
+        dedupByContent: true,
       });
 
       expect(duplicate.enqueued).toBe(false);
       // After completion, it goes to sent_messages table, so it should be 'already_sent'
       expect(duplicate.reason).toBe('already_sent');
+      expect(duplicate.larkMessageId).toBe('lark_msg_123');
+    });
+
+    it('should persist a stable idempotency uuid per outbound row', () => {
+      const first = queue.enqueueOutbound('reply', { sessionKey: 'lark:oc_abc', chatId: 'oc_abc', content: 'One' }).id!;
+      const second = queue.enqueueOutbound('reply', { sessionKey: 'lark:oc_def', chatId: 'oc_def', content: 'Two' }).id!;
+
+      const uuid = queue.getOutbound(first)!.lark_uuid;
+      expect(uuid).toMatch(/^[0-9a-f-]{36}$/);
+      expect(queue.getOutbound(second)!.lark_uuid).not.toBe(uuid);
+
+      // Same key on the retry, including from a fresh process
+      queue.markOutboundProcessing(first);
+      queue.markOutboundRetry(first, 'timeout');
+      const reopened = new MessageQueue(TEST_DB_PATH);
+      try {
+        expect(reopened.getOutbound(first)!.lark_uuid).toBe(uuid);
+      } finally {
+        reopened.close();
+      }
+    });
+
+    it('should store typed payloads and default to text', () => {
+      const text = queue.enqueueOutbound('reply', { sessionKey: 'lark:oc_abc', chatId: 'oc_abc', content: 'Plain' }).id!;
+      const file = queue.enqueueOutbound('reply', {
+        sessionKey: 'lark:oc_abc',
+        chatId: 'oc_abc',
+        content: 'Monthly report',
+        payloadType: 'file',
+        media: { url: '/tmp/report.pdf', fileName: 'report.pdf' },
+      }).id!;
+
+      expect(queue.getOutbound(text)).toMatchObject({ payload_type: 'text', media_json: null, upload_key: null });
+      expect(queue.getOutbound(file)!.payload_type).toBe('file');
+      expect(JSON.parse(queue.getOutbound(file)!.media_json!)).toEqual({ url: '/tmp/report.pdf', fileName: 'report.pdf' });
+
+      // A caption is not a duplicate of the same text sent on its own
+      const caption = queue.enqueueOutbound('reply', {
+        sessionKey: 'lark:oc_abc',
+        chatId: 'oc_abc',
+        content: 'Plain',
+        payloadType: 'image',
+        media: { url: 'https://example.com/chart.png' },
+        dedupByContent: true,
+      });
+      expect(caption.enqueued).toBe(true);
+    });
+
+    it('should store the reply target of a reply', () => {
+      const quoted = queue.enqueueOutbound('reply', {
+        sessionKey: 'lark:oc_abc',
+        chatId: 'oc_abc',
+        content: 'Answer',
+        replyTo: 'om_question',
+      }).id!;
+      const threaded = queue.enqueueOutbound('reply', {
+        sessionKey: 'lark:oc_abc',
+        chatId: 'oc_abc',
+        content: 'Answer in thread',
+        replyTo: 'om_question',
+        replyInThread: true,
+      }).id!;
+      const plain = queue.enqueueOutbound('mirror', {
+        sessionKey: 'lark:oc_abc',
+        chatId: 'oc_abc',
+        content: 'No message to reply to',
+        replyInThread: true,
+      }).id!;
+
+      expect(queue.getOutbound(quoted)).toMatchObject({ reply_to_message_id: 'om_question', reply_in_thread: 0 });
+      expect(queue.getOutbound(threaded)).toMatchObject({ reply_to_message_id: 'om_question', reply_in_thread: 1 });
+      expect(queue.getOutbound(plain)).toMatchObject({ reply_to_message_id: null, reply_in_thread: 0 });
+    });
+
+    it('should keep the upload key across retries', () => {
+      const { id } = queue.enqueueOutbound('reply', {
+        sessionKey: 'lark:oc_abc',
+        chatId: 'oc_abc',
+        content: '',
+        payloadType: 'image',
+        media: { url: '/tmp/chart.png' },
+      });
+
+      queue.markOutboundProcessing(id!);
+      queue.setOutboundUpload(id!, 'img_v3_abc', 'image');
+      queue.markOutboundRetry(id!, 'send timeout');
+
+      expect(queue.getOutbound(id!)).toMatchObject({ status: 'pending', upload_key: 'img_v3_abc', upload_type: 'image' });
+    });
+
+    it('should keep non-retryable failures for review without redelivering', () => {
+      const { id } = queue.enqueueOutbound('reply', {
+        runId: 'om_1',
+        sessionKey: 'lark:oc_abc',
+        chatId: 'oc_abc',
+        content: 'Bot was removed',
+      });
+
+      queue.markOutboundProcessing(id!);
+      queue.markOutboundFailed(id!, 'code 230002: bot not in chat');
+
+      expect(queue.getOutbound(id!)?.status).toBe('failed_permanent');
+      expect(queue.getOutbound(id!)?.run_id).toBe('om_1');
+      expect(queue.dequeueOutbound(10)).toHaveLength(0);
+    });
+  });
+
+  describe('Inbound Coalescing', () => {
+    const receive = (messageId: string, sender: string, text: string) =>
+      queue.enqueueInbound({ messageId, chatId: 'oc_abc', sessionKey: `lark:oc_abc:${sender}`, messageText: text }).id!;
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should hold a chat back until the sender is quiet for the window', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      receive('msg_1', 'ou_1', 'Hello');
+      vi.setSystemTime(Date.now() + 500);
+      receive('msg_2', 'ou_1', 'one more thing');
+
+      expect(queue.dequeueInbound(10, 1000)).toHaveLength(0);
+
+      vi.setSystemTime(Date.now() + 1001);
+      expect(queue.dequeueInbound(10, 1000).map((m) => m.message_id)).toEqual(['msg_1']);
+      // No window: dispatch immediately
+      expect(queue.dequeueInbound(10).map((m) => m.message_id)).toEqual(['msg_1']);
+    });
+
+    it('should collect follow-ups from the same sender within the window', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      receive('msg_1', 'ou_1', 'Look at this');
+      vi.setSystemTime(Date.now() + 300);
+      receive('msg_2', 'ou_1', '[User sent an image]');
+      vi.setSystemTime(Date.now() + 300);
+      receive('msg_3', 'ou_2', 'Different sender');
+      receive('msg_4', 'ou_1', 'After another sender');
+
+      const [head] = queue.dequeueInbound(10);
+      const followers = queue.collectCoalescedInbound(head, 1000);
+
+      expect(followers.map((m) => m.message_id)).toEqual(['msg_2']);
+    });
+
+    it('should stop collecting at a gap longer than the window', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      receive('msg_1', 'ou_1', 'First');
+      vi.setSystemTime(Date.now() + 5000);
+      receive('msg_2', 'ou_1', 'Much later');
+
+      const [head] = queue.dequeueInbound(10);
+      expect(queue.collectCoalescedInbound(head, 1000)).toHaveLength(0);
+    });
+
+    it('should release claimed follow-ups without counting a retry', () => {
+      receive('msg_1', 'ou_1', 'First');
+      const second = receive('msg_2', 'ou_1', 'Second');
+
+      queue.markInboundProcessing(second);
+      queue.releaseInbound(second);
+
+      const stats = queue.getStats();
+      expect(stats.inbound.pending).toBe(2);
+      expect(stats.inbound.processing).toBe(0);
+    });
+  });
+
+  describe('Outbound Ordering', () => {
+    const send = (chatId: string, content: string) =>
+      queue.enqueueOutbound('reply', { sessionKey: `lark:${chatId}`, chatId, content }).id!;
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should hand out only the head message of each chat', () => {
+      const a1 = send('oc_a', 'A1');
+      send('oc_a', 'A2');
+      const b1 = send('oc_b', 'B1');
+
+      expect(queue.dequeueOutbound(10).map((m) => m.id)).toEqual([a1, b1]);
+    });
+
+    it('should not send the next message while the head is in flight', () => {
+      const a1 = send('oc_a', 'A1');
+      const a2 = send('oc_a', 'A2');
+
+      queue.markOutboundProcessing(a1);
+      expect(queue.dequeueOutbound(10)).toHaveLength(0);
+
+      queue.markOutboundCompleted(a1, 'om_a1');
+      expect(queue.dequeueOutbound(10).map((m) => m.id)).toEqual([a2]);
+    });
+
+    it('should keep order when the head message is retried', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const a1 = send('oc_a', 'A1');
+      const a2 = send('oc_a', 'A2');
+      const b1 = send('oc_b', 'B1');
+
+      queue.markOutboundProcessing(a1);
+      queue.markOutboundRetry(a1, 'timeout');
+
+      // A1 is backing off: A2 must wait, other chats are unaffected
+      expect(queue.dequeueOutbound(10).map((m) => m.id)).toEqual([b1]);
+
+      vi.setSystemTime(Date.now() + 60_000);
+      expect(queue.dequeueOutbound(10).map((m) => m.id)).toEqual([a1, b1]);
+
+      queue.markOutboundProcessing(a1);
+      queue.markOutboundCompleted(a1, 'om_a1');
+      expect(queue.dequeueOutbound(10).map((m) => m.id)).toEqual([a2, b1]);
+    });
+
+    it('should not block a chat behind a permanently failed message', () => {
+      const a1 = send('oc_a', 'A1');
+      const a2 = send('oc_a', 'A2');
+
+      queue.markOutboundProcessing(a1);
+      queue.markOutboundFailed(a1, 'bot not in chat');
+      expect(queue.dequeueOutbound(10).map((m) => m.id)).toEqual([a2]);
+    });
+
+    it('should withdraw a message only while it is still pending', () => {
+      const a1 = send('oc_a', 'A1');
+      const a2 = send('oc_a', 'A2');
+
+      expect(queue.cancelOutbound(a1, 'not needed')).toBe(true);
+      expect(queue.getOutbound(a1)?.status).toBe('cancelled');
+      expect(queue.dequeueOutbound(10).map((m) => m.id)).toEqual([a2]);
+
+      queue.markOutboundProcessing(a2);
+      expect(queue.cancelOutbound(a2, 'not needed')).toBe(false);
+      expect(queue.getOutbound(a2)?.status).toBe('processing');
+    });
+  });
+
+  describe('Inbound Deliveries', () => {
+    it('should remember delivered reply blocks per inbound message', () => {
+      const { id } = queue.enqueueInbound({ messageId: 'msg_1', chatId: 'oc_abc', sessionKey: 'lark:oc_abc', messageText: 'Hi' });
+
+      queue.recordInboundDelivery(id!, 0, 'Part one', 7);
+      queue.recordInboundDelivery(id!, 1, 'Part two');
+
+      expect(queue.getInboundDeliveries(id!)).toHaveLength(2);
+      expect(queue.wasBlockDelivered(id!, 0, 'Part one')).toBe(true);
+      expect(queue.wasBlockDelivered(id!, 1, 'Part two')).toBe(true);
+    });
+
+    it('should not suppress a block with different content or position', () => {
+      const { id } = queue.enqueueInbound({ messageId: 'msg_1', chatId: 'oc_abc', sessionKey: 'lark:oc_abc', messageText: 'Hi' });
+      queue.recordInboundDelivery(id!, 0, 'Part one');
+
+      expect(queue.wasBlockDelivered(id!, 0, 'Rephrased part one')).toBe(false);
+      expect(queue.wasBlockDelivered(id!, 1, 'Part one')).toBe(false);
+      expect(queue.wasBlockDelivered(id! + 1, 0, 'Part one')).toBe(false);
+    });
+  });
+
+  describe('Leases', () => {
+    let worker: MessageQueue;
+
+    const receive = (messageId: string) =>
+      queue.enqueueInbound({ messageId, chatId: 'oc_abc', sessionKey: 'lark:oc_abc', messageText: 'Hi' }).id!;
+
+    beforeEach(() => {
+      // Second process sharing the same database and account
+      worker = new MessageQueue(TEST_DB_PATH);
+    });
+
+    afterEach(() => {
+      worker.close();
+      vi.useRealTimers();
+    });
+
+    it('should let only one process claim a row', () => {
+      const id = receive('msg_1');
+
+      expect(queue.markInboundProcessing(id)).toBe(true);
+      expect(worker.markInboundProcessing(id)).toBe(false);
+    });
+
+    it('should not reclaim a long run while its lease is renewed', () => {
+      vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+      const id = receive('msg_1');
+      queue.markInboundProcessing(id);
+      const stop = queue.keepLeasesAlive('inbound', [id]);
+
+      vi.advanceTimersByTime(10 * 60 * 1000);
+      expect(worker.dequeueInbound(10)).toHaveLength(0);
+
+      stop();
+      vi.advanceTimersByTime(61 * 1000);
+      expect(worker.dequeueInbound(10).map((m) => m.id)).toEqual([id]);
+    });
+
+    it('should reclaim rows whose owner stopped heartbeating', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const id = queue.enqueueOutbound('reply', { sessionKey: 'lark:oc_abc', chatId: 'oc_abc', content: 'Reply' }).id!;
+      queue.markOutboundProcessing(id);
+
+      expect(worker.dequeueOutbound(10)).toHaveLength(0);
+
+      vi.setSystemTime(Date.now() + 61 * 1000);
+      expect(worker.dequeueOutbound(10).map((m) => m.id)).toEqual([id]);
+      expect(worker.markOutboundProcessing(id)).toBe(true);
+    });
+
+    it('should not let a worker that lost its lease overwrite the new owner', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const id = receive('msg_1');
+      queue.markInboundProcessing(id);
+
+      vi.setSystemTime(Date.now() + 61 * 1000);
+      worker.dequeueInbound(10);
+      expect(worker.markInboundProcessing(id)).toBe(true);
+
+      // The stale run finishes late: its result is dropped
+      expect(queue.markInboundRetry(id, 'agent error')).toBe(false);
+      expect(queue.markInboundCompleted(id, 'late')).toBe(false);
+      expect(queue.getStats().inbound.processing).toBe(1);
+
+      expect(worker.markInboundCompleted(id, 'delivered')).toBe(true);
+    });
+
+    it('should report a lost lease to the owner', () => {
+      vi.useFakeTimers({ toFake: ['Date', 'setInterval', 'clearInterval'] });
+      const id = receive('msg_1');
+      queue.markInboundProcessing(id);
+      const onLost = vi.fn();
+      const stop = queue.keepLeasesAlive('inbound', [id], onLost);
+
+      // Heartbeats stalled (e.g. a blocked event loop) and another worker took over
+      vi.setSystemTime(Date.now() + 61 * 1000);
+      worker.dequeueInbound(10);
+      worker.markInboundProcessing(id);
+
+      vi.advanceTimersByTime(20 * 1000);
+      expect(onLost).toHaveBeenCalledWith(id);
+      stop();
+    });
+
+    it('should hand in-flight rows back on close', () => {
+      const id = receive('msg_1');
+      worker.markInboundProcessing(id);
+
+      worker.close();
+      worker = new MessageQueue(TEST_DB_PATH);
+
+      expect(queue.dequeueInbound(10).map((m) => m.id)).toEqual([id]);
+    });
+  });
+
+  describe('Event Dedup', () => {
+    it('should record processed events by event_id', () => {
+      expect(queue.isEventProcessed('ev_1')).toBe(false);
+
+      expect(queue.markEventProcessed('ev_1', 'im.message.receive_v1')).toBe(true);
+
+      expect(queue.isEventProcessed('ev_1')).toBe(true);
+      expect(queue.isEventProcessed('ev_2')).toBe(false);
+    });
+
+    it('should report repeated marks as duplicates', () => {
+      queue.markEventProcessed('ev_1');
+      expect(queue.markEventProcessed('ev_1')).toBe(false);
+    });
+
+    it('should persist across queue instances', () => {
+      queue.markEventProcessed('ev_durable', 'card.action.trigger');
+      queue.close();
+
+      queue = new MessageQueue(TEST_DB_PATH);
+      expect(queue.isEventProcessed('ev_durable')).toBe(true);
+    });
+  });
+
+  describe('Account Isolation', () => {
+    let other: MessageQueue;
+
+    beforeEach(() => {
+      other = new MessageQueue(TEST_DB_PATH, 'team');
+    });
+
+    afterEach(() => {
+      other.close();
+    });
+
+    it('should only dequeue rows of its own account', () => {
+      queue.enqueueInbound({ messageId: 'msg_a', chatId: 'oc_abc', sessionKey: 'lark:oc_abc', messageText: 'A' });
+      other.enqueueInbound({ messageId: 'msg_b', chatId: 'oc_abc', sessionKey: 'lark:oc_abc', messageText: 'B' });
+      other.enqueueOutbound('reply', { sessionKey: 'lark:oc_abc', chatId: 'oc_abc', content: 'Team reply' });
+
+      expect(queue.dequeueInbound(10).map((m) => m.message_id)).toEqual(['msg_a']);
+      expect(other.dequeueInbound(10).map((m) => m.message_id)).toEqual(['msg_b']);
+      expect(queue.dequeueOutbound(10)).toHaveLength(0);
+      expect(other.dequeueOutbound(10)[0].account_id).toBe('team');
+    });
+
+    it('should accept the same Lark message for two accounts', () => {
+      // Two bots in one group both receive the same message_id
+      const first = queue.enqueueInbound({ messageId: 'msg_shared', chatId: 'oc_abc', sessionKey: 'lark:oc_abc', messageText: 'Hi' });
+      const second = other.enqueueInbound({ messageId: 'msg_shared', chatId: 'oc_abc', sessionKey: 'lark:oc_abc', messageText: 'Hi' });
+
+      expect(first.enqueued).toBe(true);
+      expect(second.enqueued).toBe(true);
+    });
+
+    it('should not dedup outbound content across accounts', () => {
+      queue.enqueueOutbound('reply', { sessionKey: 'lark:oc_abc', chatId: 'oc_abc', content: 'Same', idempotencyKey: 'k1', dedupByContent: true });
+      const result = other.enqueueOutbound('reply', { sessionKey: 'lark:oc_abc', chatId: 'oc_abc', content: 'Same', idempotencyKey: 'k1', dedupByContent: true });
+
+      expect(result.enqueued).toBe(true);
+    });
+
+    it("should not reset another account's in-flight rows on startup", () => {
+      const { id } = other.enqueueInbound({ messageId: 'msg_busy', chatId: 'oc_abc', sessionKey: 'lark:oc_abc', messageText: 'Busy' });
+      other.markInboundProcessing(id!);
+
+      const restarted = new MessageQueue(TEST_DB_PATH);
+      restarted.close();
+
+      expect(other.getStats().inbound.processing).toBe(1);
+    });
+  });
+
+  describe('Legacy Schema', () => {
+    const LEGACY_DB_PATH = path.join(os.tmpdir(), `lark-queue-legacy-${Date.now()}.db`);
+
+    afterEach(() => {
+      for (const suffix of ['', '-wal', '-shm']) {
+        try { fs.unlinkSync(`${LEGACY_DB_PATH}${suffix}`); } catch { /* ignore */ }
+      }
+    });
+
+    it('should migrate rows created before account_id existed', () => {
+      const db = new Database(LEGACY_DB_PATH);
+      db.exec(`
+        CREATE TABLE inbound_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          message_id TEXT NOT NULL UNIQUE,
+          chat_id TEXT NOT NULL,
+          session_key TEXT NOT NULL,
+          message_text TEXT NOT NULL,
+          attachments_json TEXT,
+          status TEXT DEFAULT 'pending',
+          retries INTEGER DEFAULT 0,
+          next_retry_at INTEGER,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          completed_at INTEGER,
+          response_text TEXT,
+          last_error TEXT
+        );
+        CREATE INDEX idx_inbound_msgid ON inbound_queue(message_id);
+        INSERT INTO inbound_queue (message_id, chat_id, session_key, message_text, created_at, updated_at)
+        VALUES ('msg_old', 'oc_abc', 'lark:oc_abc', 'Old', 1, 1);
+      `);
+      db.close();
+
+      const migrated = new MessageQueue(LEGACY_DB_PATH);
+      const team = new MessageQueue(LEGACY_DB_PATH, 'team');
+      try {
+        expect(migrated.dequeueInbound(10).map((m) => m.message_id)).toEqual(['msg_old']);
+        expect(team.enqueueInbound({ messageId: 'msg_old', chatId: 'oc_abc', sessionKey: 'lark:oc_abc', messageText: 'Old' }).enqueued).toBe(true);
+        expect(migrated.enqueueInbound({ messageId: 'msg_old', chatId: 'oc_abc', sessionKey: 'lark:oc_abc', messageText: 'Old' }).enqueued).toBe(false);
+      } finally {
+        team.close();
+        migrated.close();
+      }
     });
   });
 
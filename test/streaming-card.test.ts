@@ -0,0 +1,142 @@
+/**
+ * Streaming Card Tests
+ *
+ * Placeholder on start, throttled patches of the partial reply and reasoning,
+ * and the fallback signal when the card cannot be finalized.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StreamingCard } from '../src/streaming-card.js';
+import type { LarkCard } from '../src/types.js';
+
+function cardText(card: LarkCard): string | undefined {
+  const div = card.elements?.find((el) => el.tag === 'div') as { text?: { content?: string } } | undefined;
+  return div?.text?.content;
+}
+
+describe('StreamingCard', () => {
+  let create: ReturnType<typeof vi.fn>;
+  let patch: ReturnType<typeof vi.fn>;
+  let remove: ReturnType<typeof vi.fn>;
+  let stream: StreamingCard;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    create = vi.fn(async () => 'om_card');
+    patch = vi.fn(async () => true);
+    remove = vi.fn(async () => true);
+    stream = new StreamingCard({ create, patch, remove, intervalMs: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send the placeholder once and throttle patches', async () => {
+    stream.start();
+    stream.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(create).toHaveBeenCalledTimes(1);
+
+    stream.update('Hel');
+    await vi.advanceTimersByTimeAsync(0);
+    stream.update('Hello');
+    stream.update('Hello wor');
+    await vi.advanceTimersByTimeAsync(500);
+    expect(patch).toHaveBeenCalledTimes(1);
+    expect(cardText(patch.mock.calls[0][1])).toBe('Hel ▍');
+
+    // The latest text is patched when the interval has passed
+    await vi.advanceTimersByTimeAsync(500);
+    expect(patch).toHaveBeenCalledTimes(2);
+    expect(cardText(patch.mock.calls[1][1])).toBe('Hello wor ▍');
+  });
+
+  it('should patch the final text and report success', async () => {
+    stream.start();
+    stream.update('Draft');
+    await vi.advanceTimersByTimeAsync(0);
+
+    await expect(stream.finalize('Final answer')).resolves.toBe(true);
+    expect(patch).toHaveBeenLastCalledWith('om_card', expect.anything());
+    expect(cardText(patch.mock.calls.at(-1)![1])).toBe('Final answer');
+
+    // Nothing more is streamed into a finished card
+    stream.update('Late partial');
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(patch).toHaveBeenCalledTimes(2);
+    expect(stream.done).toBe(true);
+  });
+
+  it('should report failure when the placeholder was not sent or the patch fails', async () => {
+    create.mockResolvedValueOnce(null);
+    stream.start();
+    await expect(stream.finalize('Answer')).resolves.toBe(false);
+    expect(patch).not.toHaveBeenCalled();
+
+    const failing = new StreamingCard({ create, patch: vi.fn(async () => false), remove });
+    failing.start();
+    await expect(failing.finalize('Answer')).resolves.toBe(false);
+  });
+
+  it('should remove the half-written card when the final patch fails', async () => {
+    patch.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+    stream.start();
+    stream.update('Partial');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(patch).toHaveBeenCalledTimes(1);
+
+    await expect(stream.finalize('Full answer')).resolves.toBe(false);
+    expect(remove).toHaveBeenCalledWith('om_card');
+
+    // The run's close() afterwards does not touch the card again
+    await stream.close();
+    expect(remove).toHaveBeenCalledTimes(1);
+    expect(patch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop streaming after a failed patch but still try the final patch', async () => {
+    patch.mockResolvedValueOnce(false);
+    stream.start();
+    stream.update('One');
+    await vi.advanceTimersByTimeAsync(0);
+    stream.update('One two');
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(patch).toHaveBeenCalledTimes(1);
+
+    await expect(stream.finalize('One two three')).resolves.toBe(true);
+    expect(patch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not stream silent replies and remove an empty placeholder on close', async () => {
+    stream.start();
+    stream.update('NO_');
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(patch).not.toHaveBeenCalled();
+
+    await stream.close();
+    expect(remove).toHaveBeenCalledWith('om_card');
+  });
+
+  it('should keep the streamed text when closed without a final reply', async () => {
+    stream.start();
+    stream.update('Partial answer');
+    await vi.advanceTimersByTimeAsync(0);
+
+    await stream.close();
+    expect(cardText(patch.mock.calls.at(-1)![1])).toBe('Partial answer');
+    expect(remove).not.toHaveBeenCalled();
+  });
+
+  it('should stream reasoning and keep it in the final card', async () => {
+    stream.start();
+    stream.updateReasoning('Thinking it over');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(patch.mock.calls[0][1].elements[0]).toMatchObject({ tag: 'collapsible_panel', expanded: true });
+
+    await stream.finalize('Answer');
+    const final: LarkCard = patch.mock.calls.at(-1)![1];
+    expect(final.elements?.[0]).toMatchObject({ tag: 'collapsible_panel', expanded: false });
+    expect(cardText(final)).toBe('Answer');
+  });
+});
@@ -2,9 +2,25 @@
  * Webhook Handler Tests
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import crypto from 'node:crypto';
-import { decryptPayload, shouldRespondInGroup } from '../src/webhook.js';
+import http from 'node:http';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import {
+  WebhookHandler,
+  cardText,
+  computeSignature,
+  decryptPayload,
+  shouldRespondInGroup,
+  signaturesMatch,
+} from '../src/webhook.js';
+import { MessageQueue } from '../src/queue.js';
+import type { LarkClient } from '../src/client.js';
+
+const TEST_DB_PATH = path.join(os.tmpdir(), `lark-webhook-test-${Date.now()}.db`);
 
 describe('Webhook', () => {
   describe('decryptPayload', () => {
@@ -56,4 +72,435 @@ describe('Webhook', () => {
       expect(shouldRespondInGroup('Ok sounds good', [], false)).toBe(false);
     });
   });
+
+  describe('cardText', () => {
+    it('should collect the visible text of a card', () => {
+      const card = {
+        title: 'Build report',
+        elements: [[{ tag: 'text', text: 'All green' }], [{ tag: 'img', image_key: 'img_1' }]],
+      };
+      expect(cardText(JSON.stringify(card))).toBe('Build report\nAll green');
+      expect(cardText('not json')).toBe('');
+    });
+  });
+
+  describe('computeSignature', () => {
+    it('should hash timestamp + nonce + secret + body with sha256', () => {
+      const expected = crypto.createHash('sha256').update('1700000000nonce1key{"a":1}').digest('hex');
+      expect(computeSignature('1700000000', 'nonce1', 'key', '{"a":1}')).toBe(expected);
+    });
+
+    it('should support sha1 for legacy card callbacks', () => {
+      const expected = crypto.createHash('sha1').update('1700000000nonce1token{}').digest('hex');
+      expect(computeSignature('1700000000', 'nonce1', 'token', '{}', 'sha1')).toBe(expected);
+    });
+
+    it('should compare signatures safely', () => {
+      expect(signaturesMatch('abc', 'abc')).toBe(true);
+      expect(signaturesMatch('abc', 'abd')).toBe(false);
+      expect(signaturesMatch('abc', 'abcd')).toBe(false);
+    });
+  });
+
+  describe('request verification', () => {
+    const ENCRYPT_KEY = 'test-encrypt-key';
+    const TOKEN = 'test-verification-token';
+    let queue: MessageQueue;
+    let handler: WebhookHandler;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      queue = new MessageQueue(TEST_DB_PATH);
+      handler = new WebhookHandler({
+        port: 0,
+        encryptKey: ENCRYPT_KEY,
+        verificationToken: TOKEN,
+        signatureMaxSkewSec: 60,
+        queue,
+        client: {} as LarkClient,
+      });
+      await handler.start();
+      const { port } = handler.getServer()!.address() as AddressInfo;
+      baseUrl = `http://127.0.0.1:${port}`;
+    });
+
+    afterEach(async () => {
+      await handler.stop();
+      queue.close();
+      for (const suffix of ['', '-wal', '-shm']) {
+        try { fs.unlinkSync(`${TEST_DB_PATH}${suffix}`); } catch { /* ignore */ }
+      }
+    });
+
+    function signedPost(
+      url: string,
+      body: object,
+      opts: { timestamp?: number; nonce?: string; secret?: string; algorithm?: 'sha256' | 'sha1' } = {}
+    ) {
+      const raw = JSON.stringify(body);
+      const timestamp = String(opts.timestamp ?? Math.floor(Date.now() / 1000));
+      const nonce = opts.nonce ?? crypto.randomUUID();
+      const signature = computeSignature(timestamp, nonce, opts.secret ?? ENCRYPT_KEY, raw, opts.algorithm);
+      return fetch(`${baseUrl}${url}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Lark-Request-Timestamp': timestamp,
+          'X-Lark-Request-Nonce': nonce,
+          'X-Lark-Signature': signature,
+        },
+        body: raw,
+      });
+    }
+
+    const event = { schema: '2.0', header: { event_type: 'test.event', token: TOKEN } };
+
+    it('should accept a correctly signed event', async () => {
+      const res = await signedPost('/webhook', event);
+      expect(res.status).toBe(200);
+    });
+
+    it('should answer a message event only once it is queued, with 500 if queueing fails', async () => {
+      const messageEvent = {
+        schema: '2.0',
+        header: { event_id: 'ev_msg_1', event_type: 'im.message.receive_v1', token: TOKEN },
+        event: {
+          sender: { sender_id: { open_id: 'ou_1' } },
+          message: { message_id: 'om_1', chat_id: 'oc_1', chat_type: 'p2p', message_type: 'text', content: '{"text":"hi"}' },
+        },
+      };
+      vi.spyOn(queue, 'enqueueInbound').mockImplementationOnce(() => {
+        throw new Error('database is locked');
+      });
+
+      // Lark redelivers after the error response
+      expect((await signedPost('/webhook', messageEvent)).status).toBe(500);
+      expect(queue.getStats().inbound.pending).toBe(0);
+
+      expect((await signedPost('/webhook', messageEvent)).status).toBe(200);
+      expect(queue.getStats().inbound.pending).toBe(1);
+    });
+
+    it('should reject unsigned events', async () => {
+      const res = await fetch(`${baseUrl}/lark/events`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event),
+      });
+      expect(res.status).toBe(401);
+    });
+
+    it('should reject a bad signature', async () => {
+      const res = await signedPost('/webhook', event, { secret: 'wrong-key' });
+      expect(res.status).toBe(401);
+    });
+
+    it('should reject timestamps outside the skew window', async () => {
+      const res = await signedPost('/webhook', event, { timestamp: Math.floor(Date.now() / 1000) - 120 });
+      expect(res.status).toBe(401);
+    });
+
+    it('should reject replayed nonces', async () => {
+      const first = await signedPost('/webhook', event, { nonce: 'replay-me' });
+      const second = await signedPost('/webhook', event, { nonce: 'replay-me' });
+      expect(first.status).toBe(200);
+      expect(second.status).toBe(401);
+    });
+
+    it('should reject a wrong verification token', async () => {
+      const res = await signedPost('/webhook', { ...event, header: { ...event.header, token: 'nope' } });
+      expect(res.status).toBe(401);
+    });
+
+    it('should answer url_verification with a valid token', async () => {
+      const ok = await fetch(`${baseUrl}/webhook`, {
+        method: 'POST',
+        body: JSON.stringify({ type: 'url_verification', challenge: 'c1', token: TOKEN }),
+      });
+      expect(ok.status).toBe(200);
+      expect(await ok.json()).toEqual({ challenge: 'c1' });
+
+      const bad = await fetch(`${baseUrl}/webhook`, {
+        method: 'POST',
+        body: JSON.stringify({ type: 'url_verification', challenge: 'c1', token: 'nope' }),
+      });
+      expect(bad.status).toBe(401);
+    });
+
+    it('should verify card callbacks', async () => {
+      const legacyCard = { open_id: 'ou_1', action: { value: {} }, token: TOKEN };
+
+      const signed = await signedPost('/lark/cards', legacyCard, { secret: TOKEN, algorithm: 'sha1' });
+      expect(signed.status).toBe(200);
+
+      const unsigned = await fetch(`${baseUrl}/lark/cards`, {
+        method: 'POST',
+        body: JSON.stringify(legacyCard),
+      });
+      expect(unsigned.status).toBe(401);
+    });
+  });
+
+  describe('multi-account server', () => {
+    let queue: MessageQueue;
+    let teamA: WebhookHandler;
+    let teamB: WebhookHandler;
+    let baseUrl: string;
+
+    function encrypt(payload: object, key: string): string {
+      const iv = crypto.randomBytes(16);
+      const cipher = crypto.createCipheriv('aes-256-cbc', crypto.createHash('sha256').update(key).digest(), iv);
+      return Buffer.concat([iv, cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]).toString('base64');
+    }
+
+    function post(url: string, body: object) {
+      return fetch(`${baseUrl}${url}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    }
+
+    beforeEach(async () => {
+      queue = new MessageQueue(TEST_DB_PATH);
+      teamA = new WebhookHandler({ accountId: 'a', appId: 'cli_a', port: 0, verificationToken: 'tok_a', queue, client: {} as LarkClient });
+      teamB = new WebhookHandler({ accountId: 'b', appId: 'cli_b', port: 0, verificationToken: 'tok_b', encryptKey: 'key_b', queue, client: {} as LarkClient });
+      await teamA.start();
+      await teamB.start();
+      const { port } = teamA.getServer()!.address() as AddressInfo;
+      baseUrl = `http://127.0.0.1:${port}`;
+    });
+
+    afterEach(async () => {
+      await teamA.stop();
+      await teamB.stop();
+      queue.close();
+      for (const suffix of ['', '-wal', '-shm']) {
+        try { fs.unlinkSync(`${TEST_DB_PATH}${suffix}`); } catch { /* ignore */ }
+      }
+    });
+
+    it('should share one HTTP server across accounts on the same port', () => {
+      expect(teamB.getServer()).toBe(teamA.getServer());
+    });
+
+    it('should route account-scoped paths', async () => {
+      const ok = await post('/lark/a/events', { type: 'url_verification', challenge: 'c1', token: 'tok_a' });
+      expect(await ok.json()).toEqual({ challenge: 'c1' });
+
+      // Account A's handler checks account A's token
+      const wrong = await post('/lark/a/events', { type: 'url_verification', challenge: 'c1', token: 'tok_b' });
+      expect(wrong.status).toBe(401);
+
+      const unknown = await post('/lark/nope/events', { type: 'url_verification', challenge: 'c1' });
+      expect(unknown.status).toBe(404);
+    });
+
+    it('should route legacy paths by app_id', async () => {
+      const res = await post('/webhook', {
+        schema: '2.0',
+        header: { app_id: 'cli_a', token: 'tok_a', event_type: 'im.chat.updated_v1' },
+      });
+      expect(res.status).toBe(200);
+    });
+
+    it('should route encrypted legacy requests to the account that can decrypt them', async () => {
+      const res = await post('/lark/events', {
+        encrypt: encrypt({ type: 'url_verification', challenge: 'c2', token: 'tok_b' }, 'key_b'),
+      });
+      expect(await res.json()).toEqual({ challenge: 'c2' });
+    });
+
+    it('should close the server only after the last account stops', async () => {
+      const server = teamA.getServer()!;
+      await teamA.stop();
+      expect(server.listening).toBe(true);
+      expect(teamB.isRunning()).toBe(true);
+
+      await teamB.stop();
+      expect(server.listening).toBe(false);
+      expect(teamB.getServer()).toBeNull();
+    });
+
+    it('should report the queue of every account on /health', async () => {
+      const health = await (await fetch(`${baseUrl}/health`)).json();
+
+      expect(health.accounts).toEqual(['a', 'b']);
+      expect(Object.keys(health.queues)).toEqual(['a', 'b']);
+      expect(health.queues.b.inbound).toBeDefined();
+    });
+
+    it('should answer 500 when handling a request throws', async () => {
+      vi.spyOn(teamA, 'handleEventRequest').mockRejectedValueOnce(new Error('boom'));
+
+      const res = await post('/lark/a/events', { type: 'url_verification', challenge: 'c1', token: 'tok_a' });
+      expect(res.status).toBe(500);
+    });
+
+    it('should fail to start on a port another process holds', async () => {
+      const other = http.createServer();
+      await new Promise<void>((resolve) => other.listen(0, '127.0.0.1', resolve));
+      const { port } = other.address() as AddressInfo;
+      const blocked = new WebhookHandler({ accountId: 'c', port, queue, client: {} as LarkClient });
+
+      try {
+        await expect(blocked.start()).rejects.toMatchObject({ code: 'EADDRINUSE' });
+      } finally {
+        await blocked.stop();
+        await new Promise<void>((resolve) => other.close(() => resolve()));
+      }
+    });
+  });
+
+  describe('event dedup', () => {
+    let queue: MessageQueue;
+    let handler: WebhookHandler;
+    const getMessage = vi.fn(async () => null);
+
+    beforeEach(() => {
+      getMessage.mockClear();
+      queue = new MessageQueue(TEST_DB_PATH);
+      handler = new WebhookHandler({
+        port: 0,
+        queue,
+        client: { getMessage } as unknown as LarkClient,
+      });
+    });
+
+    afterEach(() => {
+      queue.close();
+      for (const suffix of ['', '-wal', '-shm']) {
+        try { fs.unlinkSync(`${TEST_DB_PATH}${suffix}`); } catch { /* ignore */ }
+      }
+    });
+
+    const forwardEvent = {
+      schema: '2.0',
+      header: { event_id: 'ev_forward_1', event_type: 'im.message.receive_v1' },
+      event: {
+        sender: { sender_id: { open_id: 'ou_1' } },
+        message: { message_id: 'om_forward_1', chat_id: 'oc_1', chat_type: 'p2p' as const, message_type: 'merge_forward' as const, content: '{}' },
+      },
+    };
+
+    it('should not redo work for a redelivered event', async () => {
+      await handler.handleEvent(forwardEvent);
+      await handler.handleEvent(forwardEvent);
+
+      expect(getMessage).toHaveBeenCalledTimes(1);
+      expect(queue.isEventProcessed('ev_forward_1')).toBe(true);
+    });
+
+    it('should skip concurrent redeliveries', async () => {
+      await Promise.all([handler.handleEvent(forwardEvent), handler.handleEvent(forwardEvent)]);
+      expect(getMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should handle a redelivery again when the message could not be queued', async () => {
+      vi.spyOn(queue, 'enqueueInbound').mockImplementationOnce(() => {
+        throw new Error('database is locked');
+      });
+
+      expect(await handler.handleEvent(forwardEvent)).toBe(false);
+      expect(queue.isEventProcessed('ev_forward_1')).toBe(false);
+
+      expect(await handler.handleEvent(forwardEvent)).toBe(true);
+      expect(getMessage).toHaveBeenCalledTimes(2);
+      expect(queue.isEventProcessed('ev_forward_1')).toBe(true);
+      expect(queue.getStats().inbound.pending).toBe(1);
+    });
+  });
+
+  describe('inbound metadata', () => {
+    let queue: MessageQueue;
+    let handler: WebhookHandler;
+    let getMessage: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      queue = new MessageQueue(TEST_DB_PATH);
+      getMessage = vi.fn(async () => null);
+      handler = new WebhookHandler({ port: 0, queue, client: { getMessage } as unknown as LarkClient });
+    });
+
+    afterEach(() => {
+      queue.close();
+      for (const suffix of ['', '-wal', '-shm']) {
+        try { fs.unlinkSync(`${TEST_DB_PATH}${suffix}`); } catch { /* ignore */ }
+      }
+    });
+
+    it('should persist chat type, sender, thread and mentions with the message', async () => {
+      const mentions = [{ key: '@_user_1', id: { open_id: 'ou_bot' }, name: 'Bot' }];
+      await handler.handleEvent({
+        schema: '2.0',
+        header: { event_id: 'ev_meta_1', event_type: 'im.message.receive_v1' },
+        event: {
+          sender: { sender_id: { open_id: 'ou_1', union_id: 'on_1', user_id: 'u_1' }, sender_type: 'user' },
+          message: {
+            message_id: 'om_meta_1',
+            root_id: 'om_root',
+            parent_id: 'om_parent',
+            thread_id: 'omt_1',
+            create_time: '1700000000123',
+            chat_id: 'oc_group',
+            chat_type: 'group',
+            message_type: 'text',
+            content: JSON.stringify({ text: '@_user_1 status?' }),
+            mentions,
+          },
+        },
+      });
+
+      const [msg] = queue.dequeueInbound(10);
+      expect(msg).toMatchObject({
+        message_id: 'om_meta_1',
+        message_text: 'status?',
+        chat_type: 'group',
+        sender_open_id: 'ou_1',
+        sender_union_id: 'on_1',
+        sender_user_id: 'u_1',
+        sender_type: 'user',
+        root_id: 'om_root',
+        parent_id: 'om_parent',
+        thread_id: 'omt_1',
+        lark_create_time: 1700000000123,
+      });
+      expect(JSON.parse(msg.mentions_json!)).toEqual(mentions);
+    });
+
+    it('should attach the quoted message and fetch it once for a chain of replies', async () => {
+      getMessage.mockResolvedValue({
+        msg_type: 'text',
+        body: { content: JSON.stringify({ text: 'Deploy is blocked on review' }) },
+        sender: { id: 'ou_2', sender_type: 'user' },
+      });
+      const reply = (n: number) => handler.handleEvent({
+        schema: '2.0',
+        header: { event_id: `ev_reply_${n}`, event_type: 'im.message.receive_v1' },
+        event: {
+          sender: { sender_id: { open_id: 'ou_1' }, sender_type: 'user' },
+          message: {
+            message_id: `om_reply_${n}`,
+            parent_id: 'om_quoted',
+            chat_id: 'oc_dm',
+            chat_type: 'p2p',
+            message_type: 'text',
+            content: JSON.stringify({ text: 'What does this mean?' }),
+          },
+        },
+      });
+
+      await reply(1);
+      await reply(2);
+
+      expect(getMessage).toHaveBeenCalledTimes(1);
+      const messages = queue.dequeueInbound(10);
+      expect(messages[0]).toMatchObject({
+        message_text: 'What does this mean?',
+        parent_id: 'om_quoted',
+        reply_to_body: 'Deploy is blocked on review',
+        reply_to_sender: 'ou_2',
+      });
+    });
+  });
 });
@@ -0,0 +1,116 @@
+/**
+ * WebSocket Long Connection Tests
+ *
+ * The SDK's WSClient is replaced by a fake that captures the event dispatcher,
+ * so events can be fed in the shape the long connection delivers them.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as LarkSDK from '@larksuiteoapi/node-sdk';
+import { WebSocketHandler } from '../src/websocket.js';
+import type { LarkWebhookEvent } from '../src/types.js';
+
+// Hoisted: the mock factory runs while the handler module is imported
+const { fakeClients, FakeWSClient } = vi.hoisted(() => {
+  const fakeClients: Array<InstanceType<typeof FakeWSClient>> = [];
+
+  class FakeWSClient {
+    dispatcher: LarkSDK.EventDispatcher | null = null;
+    closed = false;
+
+    constructor(readonly params: { appId: string; appSecret: string; domain?: unknown }) {
+      fakeClients.push(this);
+    }
+
+    async start({ eventDispatcher }: { eventDispatcher: LarkSDK.EventDispatcher }): Promise<void> {
+      this.dispatcher = eventDispatcher;
+    }
+
+    close(): void {
+      this.closed = true;
+    }
+  }
+
+  return { fakeClients, FakeWSClient };
+});
+
+vi.mock('@larksuiteoapi/node-sdk', async (importOriginal) => ({
+  ...(await importOriginal<typeof LarkSDK>()),
+  WSClient: FakeWSClient,
+}));
+
+const messageEvent = {
+  schema: '2.0',
+  header: { event_id: 'ev_1', event_type: 'im.message.receive_v1', create_time: '1700000000000', app_id: 'cli_test' },
+  event: {
+    sender: { sender_id: { open_id: 'ou_1' }, sender_type: 'user' },
+    message: { message_id: 'om_1', chat_id: 'oc_1', chat_type: 'p2p', message_type: 'text', content: '{"text":"hi"}' },
+  },
+};
+
+describe('WebSocketHandler', () => {
+  let handler: WebSocketHandler | null;
+
+  beforeEach(() => {
+    fakeClients.length = 0;
+    handler = null;
+  });
+
+  afterEach(async () => {
+    await handler?.stop();
+  });
+
+  it('should deliver message events in the webhook envelope', async () => {
+    const events: LarkWebhookEvent[] = [];
+    handler = new WebSocketHandler({
+      appId: 'cli_test',
+      appSecret: 'secret',
+      onEvent: async (event) => { events.push(event); },
+    });
+
+    await handler.start();
+    expect(handler.isRunning()).toBe(true);
+
+    // Same call the SDK makes for a (reassembled) event frame
+    await fakeClients[0].dispatcher!.invoke(messageEvent, { needCheck: false });
+
+    expect(events).toHaveLength(1);
+    expect(events[0].schema).toBe('2.0');
+    expect(events[0].header).toMatchObject({ event_id: 'ev_1', event_type: 'im.message.receive_v1', app_id: 'cli_test' });
+    expect(events[0].event?.message?.message_id).toBe('om_1');
+    expect(events[0].event?.sender?.sender_id?.open_id).toBe('ou_1');
+  });
+
+  it('should acknowledge without waiting for the event to be handled', async () => {
+    let finish: () => void = () => {};
+    handler = new WebSocketHandler({
+      appId: 'cli_test',
+      appSecret: 'secret',
+      onEvent: () => new Promise<void>((resolve) => { finish = resolve; }),
+    });
+
+    await handler.start();
+    const ack = fakeClients[0].dispatcher!.invoke(messageEvent, { needCheck: false });
+
+    await expect(ack).resolves.toBeUndefined();
+    finish();
+  });
+
+  it('should connect to the configured domain once and close on stop', async () => {
+    handler = new WebSocketHandler({
+      appId: 'cli_test',
+      appSecret: 'secret',
+      domain: 'feishu',
+      onEvent: async () => {},
+    });
+
+    await handler.start();
+    await handler.start();
+    expect(fakeClients).toHaveLength(1);
+    expect(fakeClients[0].params).toMatchObject({ appId: 'cli_test', appSecret: 'secret', domain: LarkSDK.Domain.Feishu });
+
+    await handler.stop();
+    expect(fakeClients[0].closed).toBe(true);
+    expect(handler.isRunning()).toBe(false);
+  });
+});